@@ -0,0 +1,261 @@
+import { describe, expect, jest, it } from '@jest/globals';
+
+import { fromDefinition, MachineDefinition } from './Definition';
+
+const definition: MachineDefinition = {
+  initial: 'idle',
+  states: {
+    idle: {
+      init: 'onIdle',
+      transitions: [
+        { to: 'walk', guard: 'isWalking' },
+        { to: 'jump', event: 'JUMP', action: 'onTakeOff' },
+      ],
+    },
+    walk: {
+      minTicks: 2,
+      tick: 'onWalkTick',
+      transitions: [{ to: 'idle', guard: 'isIdle' }],
+    },
+    jump: {
+      exit: 'onLand',
+      transitions: [{ to: 'idle', guard: 'isIdle' }],
+    },
+  },
+};
+
+const getRegistry = () => ({
+  guards: {
+    isWalking: (data: any) => data.walk,
+    isIdle: (data: any) => !data.walk,
+  },
+  actions: {
+    onIdle: jest.fn(),
+    onWalkTick: jest.fn(),
+    onLand: jest.fn(),
+    onTakeOff: jest.fn(),
+  },
+});
+
+describe('fromDefinition()', () => {
+  it('builds a machine that behaves like the fluent builder', () => {
+    const registry = getRegistry();
+    const machine = fromDefinition<any>(definition, registry).init({});
+
+    expect(registry.actions.onIdle).toHaveBeenCalledTimes(1);
+
+    machine.process({ walk: true });
+    expect(machine.currentState()).toBe('walk');
+
+    // forAtLeast 2 ticks
+    machine.process({ walk: false });
+    machine.process({ walk: false });
+    expect(machine.currentState()).toBe('walk');
+    expect(registry.actions.onWalkTick).toHaveBeenCalledTimes(2);
+
+    machine.process({ walk: false });
+    expect(machine.currentState()).toBe('idle');
+    expect(registry.actions.onIdle).toHaveBeenCalledTimes(2);
+
+    machine.send('JUMP', {});
+    expect(machine.currentState()).toBe('jump');
+    expect(registry.actions.onTakeOff).toHaveBeenCalledWith({}, { from: 'idle', to: 'jump', tickCount: 0, duration: null });
+
+    machine.process({});
+    expect(machine.currentState()).toBe('idle');
+    expect(registry.actions.onLand).toHaveBeenCalledTimes(1);
+  });
+
+  it('builds nested machines and timers', () => {
+    const machine = fromDefinition<any>({
+      initial: 'idle',
+      timers: 'delta',
+      states: {
+        idle: { transitions: [{ to: 'walking', guard: 'isWalking' }] },
+        walking: {
+          minDuration: 10,
+          transitions: [{ to: 'idle', guard: 'isIdle' }],
+          nested: {
+            initial: 'slow',
+            states: {
+              slow: { transitions: [{ to: 'fast', event: 'SPRINT' }] },
+              fast: {},
+            },
+          },
+        },
+      },
+    }, getRegistry()).init({ delta: 0 });
+
+    machine.process({ walk: true, delta: 5 });
+    machine.send('SPRINT', {});
+    expect(machine.currentStatePath()).toBe('walking.fast');
+
+    machine.process({ walk: false, delta: 5 });
+    expect(machine.currentState()).toBe('walking');
+
+    machine.process({ walk: false, delta: 5 });
+    expect(machine.currentState()).toBe('idle');
+  });
+
+  it('builds transitions with history', () => {
+    const machine = fromDefinition<any>({
+      initial: 'playing',
+      states: {
+        playing: {
+          transitions: [{ to: 'paused', event: 'PAUSE' }],
+          nested: {
+            initial: 'exploring',
+            states: {
+              exploring: { transitions: [{ to: 'combat', event: 'FIGHT' }] },
+              combat: {},
+            },
+          },
+        },
+        paused: { transitions: [{ to: 'playing', event: 'RESUME', history: 'shallow' }] },
+      },
+    }).init({});
+
+    machine.send('FIGHT', {});
+    machine.send('PAUSE', {});
+    machine.send('RESUME', {});
+    expect(machine.currentStatePath()).toBe('playing.combat');
+  });
+
+  it('throws with every problem in an invalid definition', () => {
+    expect(() => {
+      fromDefinition({
+        initial: 'idle',
+        states: {
+          idle: {
+            init: 'missingAction',
+            minTicks: -1,
+            transitions: [
+              { to: 'run', guard: 'isWalking' },
+              { to: 'idle', guard: 'isWalking' },
+              { to: 'walk' },
+              { to: 'walk', guard: 'missingGuard' },
+              { to: 'walk', event: 'WALK', history: 'full' as any },
+              { to: 'walk', event: 'WALK', self: 'reenter' },
+            ],
+          },
+          walk: {},
+        },
+      }, getRegistry());
+    }).toThrow([
+      'Invalid machine definition:',
+      '  - machine.states.idle.minTicks must be a non-negative number',
+      `  - machine.states.idle.init refers to unknown action 'missingAction'`,
+      `  - machine.states.idle.transitions[0].to 'run' is not one of the states`,
+      `  - machine.states.idle.transitions[1].to cannot transition to same state: 'idle'`,
+      '  - machine.states.idle.transitions[2] must have a guard, an event, afterTicks or afterDuration',
+      `  - machine.states.idle.transitions[3].guard refers to unknown guard 'missingGuard'`,
+      `  - machine.states.idle.transitions[4].history must be either 'shallow' or 'deep'`,
+      '  - machine.states.idle.transitions[5].self is only valid for transitions to the same state',
+    ].join('\n'));
+  });
+
+  it('builds timeout transitions', () => {
+    const machine = fromDefinition<any>({
+      initial: 'attack',
+      timers: 'delta',
+      states: {
+        attack: { transitions: [{ to: 'recover', afterTicks: 1 }] },
+        recover: { transitions: [{ to: 'attack', afterDuration: 500 }] },
+      },
+    }).init({ delta: 0 });
+
+    machine.process({ delta: 100 });
+    machine.process({ delta: 100 });
+    expect(machine.currentState()).toBe('recover');
+
+    machine.process({ delta: 500 });
+    expect(machine.currentState()).toBe('attack');
+  });
+
+  it('throws when a timeout is combined with a guard or an event', () => {
+    expect(() => {
+      fromDefinition({
+        initial: 'attack',
+        states: {
+          attack: { transitions: [{ to: 'recover', event: 'HIT', afterTicks: -1 }] },
+          recover: {},
+        },
+      });
+    }).toThrow([
+      'Invalid machine definition:',
+      '  - machine.states.attack.transitions[0] cannot combine afterTicks with a guard, an event or another timeout',
+      '  - machine.states.attack.transitions[0].afterTicks must be a non-negative number',
+    ].join('\n'));
+  });
+
+  it('builds final states', () => {
+    const machine = fromDefinition<any>({
+      initial: 'alive',
+      states: {
+        alive: { transitions: [{ to: 'dead', event: 'DIE' }] },
+        dead: { final: true },
+      },
+    });
+
+    machine.send('DIE', {});
+    expect(machine.done).toBe(true);
+  });
+
+  it('throws when a final state has transitions', () => {
+    expect(() => {
+      fromDefinition({
+        initial: 'alive',
+        states: {
+          alive: { transitions: [{ to: 'dead', event: 'DIE' }] },
+          dead: { final: true, transitions: [{ to: 'alive', event: 'REVIVE' }] },
+        },
+      });
+    }).toThrow('machine.states.dead cannot be final because it has transitions');
+  });
+
+  it('builds self-transitions', () => {
+    const registry = getRegistry();
+    const machine = fromDefinition<any>({
+      initial: 'attack',
+      states: {
+        attack: { init: 'onIdle', transitions: [{ to: 'attack', event: 'ATTACK', self: 'reenter' }] },
+      },
+    }, registry).init({});
+
+    machine.send('ATTACK', {});
+    expect(registry.actions.onIdle).toHaveBeenCalledTimes(2);
+  });
+
+  it('throws when initial state is missing', () => {
+    expect(() => {
+      fromDefinition({ initial: 'idle', states: { walk: {} } });
+    }).toThrow(`machine.initial 'idle' is not one of the states`);
+  });
+
+  it('does not resolve inherited keys as states, guards or actions', () => {
+    expect(() => {
+      fromDefinition({
+        initial: 'toString',
+        states: {},
+      });
+    }).toThrow(`machine.initial 'toString' is not one of the states`);
+
+    expect(() => {
+      fromDefinition({
+        initial: 'a',
+        states: { a: { init: 'valueOf', transitions: [{ to: 'toString', guard: 'hasOwnProperty' }] } },
+      }, { guards: {}, actions: {} });
+    }).toThrow([
+      'Invalid machine definition:',
+      `  - machine.states.a.init refers to unknown action 'valueOf'`,
+      `  - machine.states.a.transitions[0].to 'toString' is not one of the states`,
+      `  - machine.states.a.transitions[0].guard refers to unknown guard 'hasOwnProperty'`,
+    ].join('\n'));
+  });
+
+  it('throws when a state cannot be reached', () => {
+    expect(() => {
+      fromDefinition({ initial: 'idle', states: { idle: {}, walk: {} } });
+    }).toThrow(`machine.states.walk is not reachable from 'idle'`);
+  });
+});
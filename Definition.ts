@@ -0,0 +1,227 @@
+import { Callback, Predicate, StateMachine, TStateMachine } from './StateMachine';
+
+export type TransitionDefinition = {
+  to: string;
+  /** @description Name of a predicate in the registry's guards */
+  guard?: string;
+  /** @description Name of an event, making this a transition taken via send() */
+  event?: string;
+  /** @description Leave the state once it has lasted this long, see after() */
+  afterTicks?: number;
+  afterDuration?: number;
+  /** @description Resume the target's nested machine where it was last left, see transitionTo() */
+  history?: 'shallow' | 'deep';
+  /** @description Name of a callback in the registry's actions, run for this transition only */
+  action?: string;
+  /** @description Required for a transition to the same state, see transitionTo() */
+  self?: 'reenter' | 'internal';
+};
+
+export type StateDefinition = {
+  minTicks?: number;
+  minDuration?: number;
+  /** @description Names of callbacks in the registry's actions */
+  init?: string;
+  tick?: string;
+  exit?: string;
+  transitions?: TransitionDefinition[];
+  nested?: MachineDefinition;
+  /** @description Marks a state the machine finishes in, which must not have transitions */
+  final?: boolean;
+};
+
+export type MachineDefinition = {
+  initial: string;
+  /** @description Delta alias passed to timers(), if durations should be recorded */
+  timers?: string;
+  states: { [stateName: string]: StateDefinition };
+};
+
+export type Registry<TData> = {
+  guards?: { [name: string]: Predicate<TData> };
+  actions?: { [name: string]: Callback<TData> };
+};
+
+// Only own keys count, so names like 'toString' don't resolve to Object.prototype
+const has = (object: object | undefined, key: unknown) =>
+  !!object && typeof key === 'string' && Object.prototype.hasOwnProperty.call(object, key);
+
+const isObject = (value: unknown): value is { [key: string]: any } =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// States in the order they are reached from the initial state, which is the order the builder can declare them
+const reachableStates = ({ initial, states }: MachineDefinition) => {
+  const reached = [initial];
+  for (let i = 0; i < reached.length; i++) {
+    (states[reached[i]]?.transitions || []).forEach(({ to }) => {
+      if (has(states, to) && !reached.includes(to)) reached.push(to);
+    });
+  }
+  return reached;
+};
+
+const validate = <TData>(definition: unknown, registry: Registry<TData>, path = 'machine'): string[] => {
+  if (!isObject(definition)) return [`${path} must be an object`];
+
+  const { initial, states, timers } = definition;
+
+  if (!isObject(states)) return [`${path}.states must be an object`];
+  if (typeof initial !== 'string') return [`${path}.initial must be a string`];
+  if (!has(states, initial)) return [`${path}.initial '${initial}' is not one of the states`];
+
+  const errors: string[] = [];
+
+  if (timers !== undefined && typeof timers !== 'string') {
+    errors.push(`${path}.timers must be a string`);
+  }
+
+  Object.keys(states).forEach(stateName => {
+    const state = states[stateName];
+    const statePath = `${path}.states.${stateName}`;
+
+    if (!isObject(state)) {
+      errors.push(`${statePath} must be an object`);
+      return;
+    }
+
+    ['minTicks', 'minDuration'].forEach(key => {
+      if (state[key] !== undefined && !(typeof state[key] === 'number' && state[key] >= 0)) {
+        errors.push(`${statePath}.${key} must be a non-negative number`);
+      }
+    });
+
+    ['init', 'tick', 'exit'].forEach(key => {
+      if (state[key] !== undefined && !has(registry.actions, state[key])) {
+        errors.push(`${statePath}.${key} refers to unknown action '${state[key]}'`);
+      }
+    });
+
+    if (state.transitions !== undefined && !Array.isArray(state.transitions)) {
+      errors.push(`${statePath}.transitions must be an array`);
+    }
+
+    (Array.isArray(state.transitions) ? state.transitions : []).forEach((transition: unknown, i: number) => {
+      const transitionPath = `${statePath}.transitions[${i}]`;
+
+      if (!isObject(transition)) {
+        errors.push(`${transitionPath} must be an object`);
+        return;
+      }
+
+      const { to, guard, event, history, action, self } = transition;
+      const timeouts = ['afterTicks', 'afterDuration'].filter(key => transition[key] !== undefined);
+
+      if (!has(states, to)) {
+        errors.push(`${transitionPath}.to '${to}' is not one of the states`);
+      } else if (to === stateName && self === undefined) {
+        errors.push(`${transitionPath}.to cannot transition to same state: '${to}'`);
+      } else if (to !== stateName && self !== undefined) {
+        errors.push(`${transitionPath}.self is only valid for transitions to the same state`);
+      }
+      if (self !== undefined && self !== 'reenter' && self !== 'internal') {
+        errors.push(`${transitionPath}.self must be either 'reenter' or 'internal'`);
+      }
+      if (guard === undefined && event === undefined && !timeouts.length) {
+        errors.push(`${transitionPath} must have a guard, an event, afterTicks or afterDuration`);
+      }
+      if (timeouts.length && (guard !== undefined || event !== undefined || timeouts.length > 1)) {
+        errors.push(`${transitionPath} cannot combine ${timeouts[0]} with a guard, an event or another timeout`);
+      }
+      timeouts.forEach(key => {
+        if (!(typeof transition[key] === 'number' && transition[key] >= 0)) {
+          errors.push(`${transitionPath}.${key} must be a non-negative number`);
+        }
+      });
+      if (guard !== undefined && !has(registry.guards, guard)) {
+        errors.push(`${transitionPath}.guard refers to unknown guard '${guard}'`);
+      }
+      if (event !== undefined && typeof event !== 'string') {
+        errors.push(`${transitionPath}.event must be a string`);
+      }
+      if (history !== undefined && history !== 'shallow' && history !== 'deep') {
+        errors.push(`${transitionPath}.history must be either 'shallow' or 'deep'`);
+      }
+      if (action !== undefined && !has(registry.actions, action)) {
+        errors.push(`${transitionPath}.action refers to unknown action '${action}'`);
+      }
+    });
+
+    if (state.final !== undefined && typeof state.final !== 'boolean') {
+      errors.push(`${statePath}.final must be a boolean`);
+    } else if (state.final && state.transitions?.length) {
+      errors.push(`${statePath} cannot be final because it has transitions`);
+    }
+
+    if (state.nested !== undefined) {
+      errors.push(...validate(state.nested, registry, `${statePath}.nested`));
+    }
+  });
+
+  if (errors.length) return errors;
+
+  const reached = reachableStates(definition as MachineDefinition);
+  Object.keys(states)
+    .filter(stateName => !reached.includes(stateName))
+    .forEach(stateName => errors.push(`${path}.states.${stateName} is not reachable from '${initial}'`));
+
+  return errors;
+};
+
+const build = <TData>(definition: MachineDefinition, registry: Registry<TData>): TStateMachine<TData> => {
+  const { guards = {}, actions = {} } = registry;
+  const machine = StateMachine<TData>(definition.initial);
+  const stateNames = reachableStates(definition);
+
+  if (definition.timers) machine.timers(definition.timers);
+
+  // declare every transition first, as states only exist once something transitions to them
+  stateNames.forEach(stateName => {
+    machine.state(stateName);
+
+    (definition.states[stateName].transitions || []).forEach(({ to, guard, event, history, action, self, afterTicks, afterDuration }) => {
+      machine.transitionTo(to, { history, self });
+
+      if (afterTicks !== undefined) {
+        machine.after(afterTicks);
+      } else if (afterDuration !== undefined) {
+        machine.after(afterDuration, 'duration');
+      } else if (event !== undefined) {
+        machine.onEvent(event, guard === undefined ? undefined : guards[guard]);
+      } else {
+        machine.when(guards[guard as string]);
+      }
+
+      if (action) machine.action(actions[action]);
+    });
+  });
+
+  stateNames.forEach(stateName => {
+    const { minTicks, minDuration, init, tick, exit, nested, final } = definition.states[stateName];
+
+    machine.state(stateName);
+
+    if (init) machine.andThen(actions[init]);
+    if (tick) machine.tick(actions[tick]);
+    if (exit) machine.exit(actions[exit]);
+    if (minTicks) machine.forAtLeast(minTicks);
+    if (minDuration) machine.forAtLeast(minDuration, 'duration');
+    if (nested) machine.nest(build(nested, registry));
+    if (final) machine.final();
+  });
+
+  return machine;
+};
+
+/**
+ * Builds a state machine from a JSON-compatible definition, resolving guards and actions by name from the registry.
+ * The definition is validated first, and any problems are thrown together in a single TypeError.
+ */
+export const fromDefinition = <TData>(definition: MachineDefinition, registry: Registry<TData> = {}): TStateMachine<TData> => {
+  const errors = validate(definition, registry);
+
+  if (errors.length) {
+    throw new TypeError(`Invalid machine definition:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+
+  return build(definition, registry);
+};
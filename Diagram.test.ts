@@ -0,0 +1,114 @@
+import { describe, expect, it } from '@jest/globals';
+
+import { StateMachine } from './StateMachine';
+import { toDot, toMermaid } from './Diagram';
+
+const isWalking = (data: any) => data.walk;
+const isIdle = (data: any) => !data.walk;
+
+const getStateMachine = () => StateMachine<any>('idle')
+  .transitionTo('walking').when(isWalking).forAtLeast(3)
+  .transitionTo('jumping').onEvent('JUMP')
+  .state('walking')
+  .nest(
+    StateMachine<any>('slow').transitionTo('fast').when(data => data.fast).forAtLeast(500, 'duration')
+  )
+  .transitionTo('idle').when(isIdle);
+
+describe('toDot()', () => {
+  it('renders states, transitions and constraints as a digraph', () => {
+    expect(toDot(getStateMachine())).toBe([
+      'digraph {',
+      '  "__start" [shape=point];',
+      '  "__start" -> "idle";',
+      '  "idle";',
+      '  "idle" -> "walking" [label="isWalking"];',
+      '  "idle" -> "jumping" [label="JUMP"];',
+      '  "walking" [label="walking\\nforAtLeast 3 ticks"];',
+      '  "walking" -> "idle" [label="isIdle"];',
+      '  subgraph "cluster_walking" {',
+      '    label="walking";',
+      '    "walking.__start" [shape=point];',
+      '    "walking.__start" -> "walking.slow";',
+      '    "walking.slow";',
+      '    "walking.slow" -> "walking.fast";',
+      '    "walking.fast" [label="fast\\nforAtLeast 500 duration"];',
+      '  }',
+      '  "walking" -> "walking.__start" [style=dashed];',
+      '  "jumping";',
+      '}',
+    ].join('\n'));
+  });
+
+  it('annotates computed constraints and guarded events', () => {
+    const isGrounded = (data: any) => data.grounded;
+    const machine = StateMachine<any>('idle').forAtLeast(() => 2)
+      .transitionTo('jumping').onEvent('JUMP', isGrounded);
+
+    expect(toDot(machine)).toContain('"idle" [label="idle\\nforAtLeast (computed) ticks"];');
+    expect(toDot(machine)).toContain('"idle" -> "jumping" [label="JUMP [isGrounded]"];');
+  });
+
+  it('marks transitions with history', () => {
+    const machine = StateMachine<any>('playing')
+      .transitionTo('paused').onEvent('PAUSE')
+      .state('paused').transitionTo('playing', { history: 'deep' }).onEvent('RESUME');
+
+    expect(toDot(machine)).toContain('"paused" -> "playing" [label="RESUME (H*)"];');
+  });
+
+  it('marks final states', () => {
+    const machine = StateMachine<any>('idle').transitionTo('dead').onEvent('DIE').final();
+
+    expect(toDot(machine)).toContain('"dead" [shape=doublecircle];');
+    expect(toMermaid(machine)).toContain('dead --> [*]');
+  });
+
+  it('draws transitions from any state from each state they apply to', () => {
+    const isDead = (data: any) => data.hp <= 0;
+    const machine = StateMachine<any>('idle')
+      .transitionTo('walk').onEvent('WALK')
+      .fromAny().transitionTo('dead').when(isDead);
+
+    expect(toMermaid(machine)).toContain('idle --> dead : isDead');
+    expect(toMermaid(machine)).toContain('walk --> dead : isDead');
+  });
+
+  it('labels transitions with named actions', () => {
+    const isRunning = (data: any) => data.run;
+    const playStartUp = () => {};
+    const machine = StateMachine<any>('idle')
+      .transitionTo('run').when(isRunning).action(playStartUp);
+
+    expect(toDot(machine)).toContain('"idle" -> "run" [label="isRunning / playStartUp"];');
+  });
+
+  it('labels timeout transitions', () => {
+    const machine = StateMachine<any>('idle')
+      .transitionTo('sleep').after(3000, 'duration')
+      .state('sleep').transitionTo('idle').after(() => 10);
+
+    expect(toDot(machine)).toContain('"idle" -> "sleep" [label="after 3000 duration"];');
+    expect(toDot(machine)).toContain('"sleep" -> "idle" [label="after (computed) ticks"];');
+  });
+});
+
+describe('toMermaid()', () => {
+  it('renders states, transitions and constraints as a state diagram', () => {
+    expect(toMermaid(getStateMachine())).toBe([
+      'stateDiagram-v2',
+      '  [*] --> idle',
+      '  idle --> walking : isWalking',
+      '  idle --> jumping : JUMP',
+      '  walking : forAtLeast 3 ticks',
+      '  walking --> idle : isIdle',
+      '  state walking {',
+      '    [*] --> walking_slow',
+      '    state "slow" as walking_slow',
+      '    walking_slow --> walking_fast',
+      '    state "fast" as walking_fast',
+      '    walking_fast : forAtLeast 500 duration',
+      '  }',
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,93 @@
+import { State, TStateMachine } from './StateMachine';
+
+type Constraint = number | (() => number);
+
+const describeConstraint = (value: Constraint, unit: 'ticks' | 'duration', keyword = 'forAtLeast') =>
+  `${keyword} ${typeof value === 'function' ? '(computed)' : value} ${unit}`;
+
+// Annotations for a state's forAtLeast constraints, e.g. 'forAtLeast 3 ticks'
+const annotate = ({ constraints: { minTicks, minDuration } }: State<any>) => [
+  ...(minTicks ? [describeConstraint(minTicks, 'ticks')] : []),
+  ...(minDuration ? [describeConstraint(minDuration, 'duration')] : []),
+];
+
+const historyMarkers = { shallow: '(H)', deep: '(H*)' };
+
+// Edges are labelled with the predicate's name (if it has one), 'EVENT [guard]' for event transitions
+// or e.g. 'after 3 ticks' for timeouts, followed by the UML history marker if the transition resumes a nested machine, and '/ action' for named actions
+const label = ({ predicate, event, timeout, history, self, actions = [] }: State<any>['transitions'][number]) => [
+  timeout ? describeConstraint(timeout.count, timeout.unit, 'after') : event || predicate.name,
+  event && predicate.name && `[${predicate.name}]`,
+  history && historyMarkers[history],
+  self === 'internal' && '(internal)',
+  ...actions.filter(action => action.name).map(action => `/ ${action.name}`),
+].filter(Boolean).join(' ');
+
+const quote = (text: string) => `"${text.replace(/"/g, '\\"')}"`;
+
+const dotLines = (machine: TStateMachine<any>, prefix: string, indent: string): string[] => {
+  const id = (stateName: string) => quote(`${prefix}${stateName}`);
+  const start = quote(`${prefix}__start`);
+
+  return [
+    `${indent}${start} [shape=point];`,
+    `${indent}${start} -> ${id(machine.initialState)};`,
+    ...Object.values(machine.states).flatMap(state => {
+      const annotations = annotate(state);
+      const attributes = [
+        ...(annotations.length ? [`label=${quote([state.name, ...annotations].join('\\n'))}`] : []),
+        ...(state.final ? ['shape=doublecircle'] : []),
+      ];
+
+      return [
+        `${indent}${id(state.name)}${attributes.length ? ` [${attributes.join(', ')}]` : ''};`,
+        ...machine.transitionsFrom(state.name).map(transition => {
+          const text = label(transition);
+          return `${indent}${id(state.name)} -> ${id(transition.state)}${text ? ` [label=${quote(text)}]` : ''};`;
+        }),
+        ...(state.child ? [
+          `${indent}subgraph ${quote(`cluster_${prefix}${state.name}`)} {`,
+          `${indent}  label=${quote(state.name)};`,
+          ...dotLines(state.child, `${prefix}${state.name}.`, `${indent}  `),
+          `${indent}}`,
+          `${indent}${id(state.name)} -> ${quote(`${prefix}${state.name}.__start`)} [style=dashed];`,
+        ] : []),
+      ];
+    }),
+  ];
+};
+
+const mermaidLines = (machine: TStateMachine<any>, prefix: string, indent: string): string[] => {
+  // Mermaid ids can't contain dots, so nested states are aliased as parent_child
+  const id = (stateName: string) => `${prefix}${stateName}`;
+
+  return [
+    `${indent}[*] --> ${id(machine.initialState)}`,
+    ...Object.values(machine.states).flatMap(state => [
+      ...(prefix ? [`${indent}state "${state.name}" as ${id(state.name)}`] : []),
+      ...annotate(state).map(annotation => `${indent}${id(state.name)} : ${annotation}`),
+      ...machine.transitionsFrom(state.name).map(transition => {
+        const text = label(transition);
+        return `${indent}${id(state.name)} --> ${id(transition.state)}${text ? ` : ${text}` : ''}`;
+      }),
+      ...(state.final ? [`${indent}${id(state.name)} --> [*]`] : []),
+      ...(state.child ? [
+        `${indent}state ${id(state.name)} {`,
+        ...mermaidLines(state.child, `${id(state.name)}_`, `${indent}  `),
+        `${indent}}`,
+      ] : []),
+    ]),
+  ];
+};
+
+/**
+ * Renders the state graph of a machine (including nested machines) as a Graphviz DOT digraph.
+ */
+export const toDot = (machine: TStateMachine<any>) =>
+  ['digraph {', ...dotLines(machine, '', '  '), '}'].join('\n');
+
+/**
+ * Renders the state graph of a machine (including nested machines) as a Mermaid state diagram.
+ */
+export const toMermaid = (machine: TStateMachine<any>) =>
+  ['stateDiagram-v2', ...mermaidLines(machine, '', '  ')].join('\n');
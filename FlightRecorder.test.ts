@@ -1,5 +1,6 @@
 import { StateMachine } from './StateMachine';
-import FlightRecorder from './FlightRecorder';
+import { ParallelStateMachine } from './ParallelStateMachine';
+import FlightRecorder, { NamespacedFlightRecorder, Timeline } from './FlightRecorder';
 
 const getStateMachine = () => StateMachine<any>('idle')
   .transitionTo('walking').when(data => data.walk)
@@ -8,7 +9,8 @@ const getStateMachine = () => StateMachine<any>('idle')
   .transitionTo('jumping').when(data => data.jump)
   // Can only transition to idle from jumping
   .state('jumping')
-  .transitionTo('idle').when(data => data.idle);
+  .transitionTo('idle').when(data => data.idle)
+  .timers('delta');
 
 const ticks = [
   /*|  state  |    change     |
@@ -63,11 +65,61 @@ describe('FlightRecorder', () => {
     expect(recorder.jumping.current).toBe(10);
   });
 
+  it('records transitions taken out of each state', () => {
+    expect(recorder.idle.exits).toEqual({
+      walking: { count: 2, time: 20 },
+      jumping: { count: 1, time: 10 },
+    });
+    expect(recorder.walking.exits).toEqual({ jumping: { count: 1, time: 40 } });
+    expect(recorder.jumping.exits).toEqual({ idle: { count: 2, time: 20 } });
+  });
+
+  it('records statistics of completed visits', () => {
+    expect(recorder.idle).toMatchObject({ shortest: 0, longest: 20, mean: 10 });
+    expect(recorder.walking).toMatchObject({ shortest: 40, mean: 40, median: 40, p95: 40 });
+    expect(recorder.jumping).toMatchObject({ shortest: 10, mean: 10, median: 10, p95: 10 });
+    expect(recorder.walking.histogram.find(({ le }) => le === 50)?.count).toBe(1);
+  });
+
+  it('estimates median and p95 from histogram buckets', () => {
+    const machine = StateMachine<any>('idle')
+      .transitionTo('walking').when(data => data.walk)
+      .state('walking').transitionTo('idle').when(data => !data.walk);
+    const recorder = FlightRecorder(machine, { buckets: [10, 20, 30] });
+
+    machine.init({});
+    // walk for 1 to 20 ticks
+    for (let visit = 1; visit <= 20; visit++) {
+      for (let tick = 0; tick <= visit; tick++) machine.process({ walk: true });
+      machine.process({});
+    }
+
+    const { shortest, longest, mean, median, p95, histogram } = recorder.walking;
+    expect([shortest, longest, mean]).toEqual([1, 20, 10.5]);
+    expect(histogram).toEqual([
+      { le: 10, count: 10 },
+      { le: 20, count: 10 },
+      { le: 30, count: 0 },
+      { le: Infinity, count: 0 },
+    ]);
+    expect(median).toBe(10);
+    expect(p95).toBe(19);
+    expect(recorder.idle.median).toBe(0);
+    expect(FlightRecorder(getStateMachine()).idle.median).toBeUndefined();
+  });
+
+  it('throws with invalid histogram buckets', () => {
+    expect(() => {
+      FlightRecorder(getStateMachine(), { buckets: [10, 5] });
+    }).toThrow('Histogram buckets must be numbers in ascending order');
+  });
+
   it('can record multiple state machines', () => {
     const a = getStateMachine();
     const b = StateMachine<any>('right')
       .transitionTo('left').when(data => data.left)
-      .state('left').transitionTo('right').when(data => data.right);
+      .state('left').transitionTo('right').when(data => data.right)
+      .timers('delta');
 
     const bTicks = [
     /*|  state  |    change     |
@@ -119,9 +171,242 @@ describe('FlightRecorder', () => {
       expect(recorder.right.longest).toBe(33);
   });
 
+  it('reads durations via the timers() alias', () => {
+    const machine = StateMachine<any>('idle')
+      .transitionTo('walking').when(data => data.walk)
+      .timers('dt');
+    const recorder = FlightRecorder(machine);
+
+    machine.init({ dt: 0 });
+    machine.process({ dt: 16 });
+    machine.process({ dt: 17 });
+
+    expect(recorder.idle.time).toBe(33);
+    expect(machine.states.idle.duration).toBe(33);
+  });
+
+  it('counts ticks when the machine has no timers', () => {
+    const machine = StateMachine<any>('idle')
+      .transitionTo('walking').when(data => data.walk)
+      .state('walking').transitionTo('idle').when(data => !data.walk);
+    const recorder = FlightRecorder(machine);
+
+    machine.init({});
+    machine.process({});
+    machine.process({});
+    machine.process({ walk: true });
+    machine.process({ walk: true });
+
+    expect(recorder.idle).toMatchObject({ count: 1, time: 2, current: 2, longest: 2, exits: { walking: { count: 1, time: 2 } } });
+    expect(recorder.walking.time).toBe(1);
+  });
+
+  it('starts a new visit when the machine is reset and initialised', () => {
+    const machine = StateMachine<any>('idle')
+      .transitionTo('walking').when(data => data.walk)
+      .state('walking').transitionTo('idle').when(data => !data.walk);
+    const recorder = FlightRecorder(machine);
+
+    machine.init({}).process({ walk: true });
+    [1, 2, 3].forEach(() => machine.process({ walk: true }));
+    machine.reset().init({}).process({});
+
+    expect(recorder.walking).toMatchObject({ count: 1, time: 3 });
+    expect(recorder.idle).toMatchObject({ count: 2, time: 1, current: 1 });
+  });
+
+  it('starts a new visit after the machine is restored', () => {
+    const machine = getStateMachine();
+    const recorder = FlightRecorder(machine);
+
+    machine.init({}).process({ walk: true, delta: 10 }).process({ walk: true, delta: 10 });
+    const snapshot = machine.snapshot();
+    [1, 2].forEach(() => machine.process({ walk: true, delta: 10 }));
+    machine.restore(snapshot);
+    machine.process({ walk: true, delta: 10 });
+
+    expect(recorder.walking).toMatchObject({ count: 2, time: 50, current: 20, longest: 30 });
+  });
+
   it('throws if there\'s a naming collision (two states with same name)', () => {
     expect(() => {
       FlightRecorder(getStateMachine(), getStateMachine())
     }).toThrow(`Naming collision: state 'idle' exists in multiple state machines.`);
   });
+
+  it('records each region of a parallel state machine separately', () => {
+    const machine = ParallelStateMachine<any>({
+      locomotion: getStateMachine(),
+      weapon: StateMachine<any>('idle')
+        .transitionTo('aim').when(data => data.aim)
+        .state('aim').transitionTo('idle').when(data => !data.aim)
+        .timers('delta'),
+    });
+    const recorder = FlightRecorder(machine);
+
+    machine.init({});
+    machine.process({ walk: true, delta: 10 });
+    machine.process({ walk: true, aim: true, delta: 10 });
+    machine.process({ walk: true, aim: true, delta: 10 });
+
+    expect(recorder['locomotion.idle'].count).toBe(1);
+    expect(recorder['locomotion.walking'].count).toBe(1);
+    expect(recorder['locomotion.walking'].time).toBe(20);
+    expect(recorder['weapon.idle'].count).toBe(1);
+    expect(recorder['weapon.idle'].time).toBe(10);
+    expect(recorder['weapon.aim'].count).toBe(1);
+    expect(recorder['weapon.aim'].time).toBe(10);
+  });
+});
+
+describe('NamespacedFlightRecorder', () => {
+  it('records machines with overlapping state names under labels', () => {
+    const player = getStateMachine();
+    const enemy = getStateMachine();
+    const { records } = NamespacedFlightRecorder({ player, enemy });
+
+    player.init({});
+    enemy.init({});
+    player.process({ walk: true, delta: 10 });
+    player.process({ walk: true, delta: 10 });
+    enemy.process({ delta: 10 });
+
+    expect(records.player.idle.count).toBe(1);
+    expect(records.player.walking.time).toBe(10);
+    expect(records.enemy.idle.time).toBe(10);
+    expect(records.enemy.walking.count).toBe(0);
+  });
+
+  it('can add and remove machines while recording', () => {
+    const player = getStateMachine();
+    const enemy = getStateMachine();
+    const recorder = NamespacedFlightRecorder().add('player', player);
+
+    player.init({});
+    enemy.init({});
+    recorder.add('enemy', enemy);
+    enemy.process({ walk: true, delta: 10 });
+    expect(recorder.records.enemy.walking.count).toBe(1);
+
+    const removed = recorder.remove('player');
+    player.process({ delta: 10 });
+    expect(removed?.idle.count).toBe(1);
+    expect(removed?.idle.time).toBe(0);
+    expect(recorder.records).not.toHaveProperty('player');
+  });
+
+  it('records parallel state machines by region', () => {
+    const { records } = NamespacedFlightRecorder({
+      player: ParallelStateMachine<any>({ locomotion: getStateMachine() }),
+    });
+
+    expect(records.player).toHaveProperty(['locomotion.idle']);
+  });
+
+  it('throws if a label is already recorded', () => {
+    expect(() => {
+      NamespacedFlightRecorder({ player: getStateMachine() }).add('player', getStateMachine());
+    }).toThrow(`Naming collision: a machine is already recorded as 'player'.`);
+  });
+});
+
+describe('Timeline', () => {
+  const run = (size?: number) => {
+    const machine = getStateMachine();
+    const timeline = Timeline(machine, { size });
+
+    machine.init({});
+    ticks.forEach(key => {
+      machine.process({ [key]: true, delta: 10 })
+    });
+    return timeline;
+  };
+
+  it('records the sequence of states entered', () => {
+    expect(run().entries()).toEqual([
+      { state: 'idle', enteredAt: 0, tick: 0, duration: 20, exit: 'walking' },
+      { state: 'walking', enteredAt: 20, tick: 2, duration: 40, exit: 'jumping' },
+      { state: 'jumping', enteredAt: 60, tick: 6, duration: 10, exit: 'idle' },
+      { state: 'idle', enteredAt: 70, tick: 7, duration: 10, exit: 'jumping' },
+      { state: 'jumping', enteredAt: 80, tick: 8, duration: 10, exit: 'idle' },
+      { state: 'idle', enteredAt: 90, tick: 9, duration: 0, exit: 'walking' },
+      { state: 'walking', enteredAt: 90, tick: 9, duration: 0, exit: null },
+    ]);
+  });
+
+  it('only keeps the latest entries', () => {
+    const timeline = run(3);
+
+    expect(timeline.entries().map(({ state }) => state)).toEqual(['jumping', 'idle', 'walking']);
+    expect(timeline.entries()[0].enteredAt).toBe(80);
+
+    timeline.clear();
+    expect(timeline.entries()).toEqual([]);
+  });
+
+  it('exports entries as JSON and CSV', () => {
+    const timeline = run(2);
+
+    expect(JSON.parse(timeline.toJSON())).toEqual(timeline.entries());
+    expect(timeline.toCSV()).toBe([
+      'state,enteredAt,tick,duration,exit',
+      'idle,90,9,0,walking',
+      'walking,90,9,0,',
+    ].join('\n'));
+  });
+
+  it('records each region of a parallel state machine', () => {
+    const machine = ParallelStateMachine<any>({
+      locomotion: getStateMachine(),
+      weapon: StateMachine<any>('idle').transitionTo('aim').when(data => data.aim),
+    });
+    const timeline = Timeline([machine]);
+
+    machine.init({});
+    machine.process({ walk: true, aim: true, delta: 10 });
+
+    expect(timeline.entries().map(({ state, exit }) => [state, exit])).toEqual([
+      ['locomotion.idle', 'locomotion.walking'],
+      ['weapon.idle', 'weapon.aim'],
+      ['locomotion.walking', null],
+      ['weapon.aim', null],
+    ]);
+  });
+
+  it('stops recording, keeping the entries recorded so far', () => {
+    const machine = getStateMachine();
+    const timeline = Timeline(machine);
+
+    machine.init({}).process({ walk: true, delta: 10 });
+    timeline.stop();
+    machine.process({ jump: true, delta: 10 });
+
+    expect(timeline.entries()).toEqual([
+      { state: 'idle', enteredAt: 0, tick: 0, duration: 0, exit: 'walking' },
+      { state: 'walking', enteredAt: 0, tick: 0, duration: 0, exit: null },
+    ]);
+  });
+
+  it('starts a new entry when the machine is reset and initialised', () => {
+    const machine = StateMachine<any>('idle')
+      .transitionTo('walking').when(data => data.walk)
+      .state('walking').transitionTo('idle').when(data => !data.walk);
+    const timeline = Timeline(machine);
+
+    machine.init({}).process({ walk: true });
+    [1, 2, 3].forEach(() => machine.process({ walk: true }));
+    machine.reset().init({}).process({});
+
+    expect(timeline.entries()).toEqual([
+      { state: 'idle', enteredAt: 0, tick: 0, duration: 0, exit: 'walking' },
+      { state: 'walking', enteredAt: 0, tick: 0, duration: 3, exit: 'idle' },
+      { state: 'idle', enteredAt: 3, tick: 3, duration: 1, exit: null },
+    ]);
+  });
+
+  it('throws with an invalid size', () => {
+    expect(() => {
+      Timeline(getStateMachine(), { size: 0 });
+    }).toThrow('Timeline size must be a positive integer');
+  });
 });
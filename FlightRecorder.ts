@@ -1,63 +1,299 @@
-import { TStateMachine } from './StateMachine';
+import { State, TStateMachine } from './StateMachine';
+import { TParallelStateMachine } from './ParallelStateMachine';
+
+// Transitions taken out of a state, keyed by the state transitioned to
+type Exits = { [to: string]: { count: number; time: number } };
+
+// Number of completed visits lasting up to le, and longer than the previous bucket's le
+type Bucket = { le: number; count: number };
 
 type Recording = {
   count: number;
   time: number;
   current?: number;
   longest?: number;
+  exits: Exits;
+  // statistics of completed visits, undefined until the state is first exited
+  shortest?: number;
+  mean?: number;
+  /** @description Estimated by interpolating within a histogram bucket, so accuracy depends on the bucket bounds */
+  median?: number;
+  /** @description Estimated like median, so visits are only resolved as finely as the bucket bounds */
+  p95?: number;
+  histogram: Bucket[];
 };
 
-const Recording = () => ({
+const Recording = (buckets: number[]): Recording => ({
   time: 0,
   count: 0,
   current: 0,
   longest: 0,
+  exits: {},
+  histogram: [...buckets, Infinity].map(le => ({ le, count: 0 })),
 });
 
+export type RecorderOptions = {
+  /**
+   * @description Upper bounds of the histogram buckets for visit durations, in ascending order. Median and p95 are
+   * estimated from these buckets, so bounds close to the expected durations give more accurate estimates.
+   */
+  buckets?: number[];
+};
+
+const defaultBuckets = [1, 2, 5, 10, 20, 50, 100, 200, 500, 1000, 2000, 5000, 10000];
+
+const validateBuckets = (buckets: number[]) => {
+  if (!buckets.every((le, i) => typeof le === 'number' && le > (i ? buckets[i - 1] : -Infinity))) {
+    throw new TypeError(`Histogram buckets must be numbers in ascending order`);
+  }
+};
+
+// Estimates a quantile by interpolating within the bucket it falls in, so no individual visits need keeping
+const quantile = (histogram: Bucket[], q: number, min: number, max: number) => {
+  const target = q * histogram.reduce((total, { count }) => total + count, 0);
+  let cumulative = 0;
+
+  for (let i = 0; i < histogram.length; i++) {
+    const { le, count } = histogram[i];
+    if (count && cumulative + count >= target) {
+      const lower = Math.max(i ? histogram[i - 1].le : min, min);
+      const upper = Math.min(le, max);
+      return lower + (upper - lower) * (target - cumulative) / count;
+    }
+    cumulative += count;
+  }
+  return max;
+};
+
 export type Records = { [key: string]: Recording };
 
-const FlightRecorder = (...machines: TStateMachine<any>[]) => {
-  const records: Records = {};
+type Machine = TStateMachine<any> | TParallelStateMachine<any>;
 
-  machines.forEach(machine => {
-    const states = Object.keys(machine.states);
+// How long a state has been current: its duration if the machine has timers(), otherwise its tick count
+const elapsed = ({ duration, tickCount }: State<any>) => duration ?? tickCount;
 
-    let currentStateName = '';
-    let currentDuration = 0;
+// Regions of a parallel machine are recorded separately, with state names prefixed by region.
+const forEachMachine = <T>(machines: Machine[], record: (machine: TStateMachine<any>, prefix?: string) => T): T[] =>
+  machines.flatMap(machine => 'regions' in machine
+    ? Object.keys(machine.regions).map(region => record(machine.regions[region], `${region}.`))
+    : [record(machine)]);
 
-    states.forEach(state => {
-      if (records[state]) {
-        throw new Error(`Naming collision: state '${state}' exists in multiple state machines.`)
-      }
+// Adds a record for each of the machine's states, returning functions that stop the recording
+const recordMachine = (records: Records, machine: TStateMachine<any>, prefix = '', buckets = defaultBuckets) => {
+  const states = Object.keys(machine.states);
+  // longest completed visit of each state, as a record's longest includes the current visit
+  const slowest: { [recordName: string]: number } = {};
 
-      records[state] = Recording();
+  let currentState = '';
+  let currentDuration = 0;
 
-      machine.on(state, () => {
-        const next = records[state];
-        next.count++;
-        currentStateName = state;
-        currentDuration = 0;
-      });
-    });
+  // statistics are updated incrementally as each visit ends
+  const recordVisit = (recordName: string, duration: number) => {
+    const record = records[recordName];
+    const visits = record.histogram.reduce((total, { count }) => total + count, 0) + 1;
+    const max = slowest[recordName] = Math.max(slowest[recordName] ?? duration, duration);
 
-    machine.on('tick', ({ delta }) => {
-      if (!delta) {
-        throw new Error(`Delta is required for FlightRecorder to work.`);
-      }
-      const record = records[currentStateName];
-      if (record) {
-        record.time += delta;
-        currentDuration += delta;
-        record.current = currentDuration;
-
-        if ((record.longest || 0) < currentDuration) {
-          record.longest = currentDuration;
-        }
+    // the last bucket's le is Infinity, so every duration has a bucket
+    (record.histogram.find(({ le }) => duration <= le) as Bucket).count++;
+    record.shortest = Math.min(record.shortest ?? duration, duration);
+    record.mean = (record.mean ?? 0) + (duration - (record.mean ?? 0)) / visits;
+    record.median = quantile(record.histogram, 0.5, record.shortest, max);
+    record.p95 = quantile(record.histogram, 0.95, record.shortest, max);
+  };
+
+  const startVisit = (state: string) => {
+    records[`${prefix}${state}`].count++;
+    currentState = state;
+    currentDuration = 0;
+  };
+
+  const disposers = states.map(state => {
+    const recordName = `${prefix}${state}`;
+
+    if (records[recordName]) {
+      throw new Error(`Naming collision: state '${recordName}' exists in multiple state machines.`)
+    }
+
+    records[recordName] = Recording(buckets);
+
+    return machine.on(state, (data, { from }) => {
+      const previous = records[`${prefix}${currentState}`];
+      if (from !== null && previous) {
+        const exit = previous.exits[state] = previous.exits[state] || { count: 0, time: 0 };
+        exit.count++;
+        exit.time += currentDuration;
+        recordVisit(`${prefix}${currentState}`, currentDuration);
       }
-    });
+
+      startVisit(state);
+    }).disposer();
   });
 
+  disposers.push(machine.on('tick', () => {
+    if (!currentState) return;
+
+    const state = machine.currentState();
+    const duration = elapsed(machine.states[state]);
+    // restore() changes the state or its duration without entering it, which starts a new visit
+    if (state !== currentState || duration < currentDuration) startVisit(state);
+
+    const record = records[`${prefix}${currentState}`];
+    if (record) {
+      record.time += duration - currentDuration;
+      currentDuration = duration;
+      record.current = currentDuration;
+
+      if ((record.longest || 0) < currentDuration) {
+        record.longest = currentDuration;
+      }
+    }
+  }).disposer());
+
+  return disposers;
+};
+
+const isMachine = (arg: Machine | RecorderOptions): arg is Machine => 'states' in arg || 'regions' in arg;
+
+// Options may be passed after the machines, e.g. FlightRecorder(a, b, { buckets: [10, 100] })
+const FlightRecorder = (...args: (Machine | RecorderOptions)[]) => {
+  const records: Records = {};
+  const machines = args.filter(isMachine);
+  const { buckets = defaultBuckets }: RecorderOptions = args.find((arg): arg is RecorderOptions => !isMachine(arg)) || {};
+
+  validateBuckets(buckets);
+  forEachMachine(machines, (machine, prefix) => recordMachine(records, machine, prefix, buckets));
+
   return records;
 };
 
+/**
+ * Records machines under labels, so their state names may overlap, e.g. records.player.idle and records.enemy.idle.
+ * Machines can be added and removed while the recorder is live.
+ */
+export const NamespacedFlightRecorder = (machines: { [label: string]: Machine } = {}, { buckets = defaultBuckets }: RecorderOptions = {}) => {
+  validateBuckets(buckets);
+
+  const records: { [label: string]: Records } = {};
+  const disposers: { [label: string]: (() => unknown)[] } = {};
+
+  const recorder = {
+    records,
+    add: (label: string, machine: Machine) => {
+      if (records[label]) {
+        throw new Error(`Naming collision: a machine is already recorded as '${label}'.`);
+      }
+      records[label] = {};
+      disposers[label] = forEachMachine([machine], (machine, prefix) => recordMachine(records[label], machine, prefix, buckets)).flat();
+      return recorder;
+    },
+    // stops recording the machine, returning its records
+    remove: (label: string): Records | undefined => {
+      const removed = records[label];
+      disposers[label]?.forEach(dispose => dispose());
+      delete records[label];
+      delete disposers[label];
+      return removed;
+    },
+  };
+
+  Object.keys(machines).forEach(label => recorder.add(label, machines[label]));
+
+  return recorder;
+};
+
+export type TimelineEntry = {
+  state: string;
+  /** @description Time accumulated by the machine before the state was entered */
+  enteredAt: number;
+  /** @description Number of ticks processed by the machine before the state was entered */
+  tick: number;
+  duration: number;
+  /** @description The state transitioned to, or null while the state is current */
+  exit: string | null;
+};
+
+const columns: (keyof TimelineEntry)[] = ['state', 'enteredAt', 'tick', 'duration', 'exit'];
+
+const toCSVField = (value: string | number | null) => {
+  const text = value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Records the sequence of states entered, keeping the latest entries in a ring buffer of the given size.
+ * Like FlightRecorder, times are durations if the machine has timers(), otherwise tick counts.
+ */
+export const Timeline = (machines: Machine | Machine[], { size = 1000 } = {}) => {
+  if (!Number.isInteger(size) || size < 1) {
+    throw new TypeError(`Timeline size must be a positive integer`);
+  }
+
+  const buffer: TimelineEntry[] = [];
+  // index of the oldest entry once the buffer is full
+  let start = 0;
+
+  const push = (entry: TimelineEntry) => {
+    if (buffer.length < size) {
+      buffer.push(entry);
+    } else {
+      buffer[start] = entry;
+      start = (start + 1) % size;
+    }
+  };
+
+  // returns functions that stop recording the machine, as with FlightRecorder
+  const recordTimeline = (machine: TStateMachine<any>, prefix = '') => {
+    let current: TimelineEntry | null = null,
+        currentState = '',
+        time = 0,
+        ticks = 0;
+
+    const enter = (state: string) => {
+      if (current) current.exit = `${prefix}${state}`;
+
+      current = { state: `${prefix}${state}`, enteredAt: time, tick: ticks, duration: 0, exit: null };
+      currentState = state;
+      push(current);
+    };
+
+    const disposers = Object.keys(machine.states).map(state => machine.on(state, () => enter(state)).disposer());
+
+    disposers.push(machine.on('tick', () => {
+      if (current) {
+        const state = machine.currentState();
+        const duration = elapsed(machine.states[state]);
+        // as in FlightRecorder, restore() starts a new entry rather than subtracting time
+        if (state !== currentState || duration < current.duration) enter(state);
+
+        time += duration - current.duration;
+        current.duration = duration;
+      }
+      ticks++;
+    }).disposer());
+
+    return disposers;
+  };
+
+  const disposers = forEachMachine(Array.isArray(machines) ? machines : [machines], recordTimeline).flat();
+
+  const entries = () => [...buffer.slice(start), ...buffer.slice(0, start)];
+
+  return {
+    entries,
+    clear: () => {
+      buffer.splice(0);
+      start = 0;
+    },
+    // stops recording, keeping the entries recorded so far
+    stop: () => {
+      disposers.splice(0).forEach(dispose => dispose());
+    },
+    toJSON: () => JSON.stringify(entries()),
+    toCSV: () => [
+      columns.join(','),
+      ...entries().map(entry => columns.map(column => toCSVField(entry[column])).join(',')),
+    ].join('\n'),
+  };
+};
+
 export default FlightRecorder;
@@ -0,0 +1,89 @@
+import { describe, expect, jest, it } from '@jest/globals';
+
+import { StateMachine } from './StateMachine';
+import { ParallelStateMachine } from './ParallelStateMachine';
+
+const getMachine = () => ParallelStateMachine<any>({
+  locomotion: StateMachine<any>('idle')
+    .transitionTo('walk').when(data => data.walk)
+    .state('walk').transitionTo('idle').when(data => !data.walk),
+  weapon: StateMachine<any>('idle')
+    .transitionTo('aim').when(data => data.aim)
+    .state('aim').transitionTo('fire').when(data => data.fire)
+    .state('fire').transitionTo('idle').when(data => !data.fire),
+});
+
+describe('ParallelStateMachine', () => {
+  it('drives every region with a single process() call', () => {
+    const machine = getMachine();
+    expect(machine.currentState()).toEqual({ locomotion: 'idle', weapon: 'idle' });
+
+    machine.process({ walk: true });
+    expect(machine.currentState()).toEqual({ locomotion: 'walk', weapon: 'idle' });
+
+    machine.process({ walk: true, aim: true });
+    expect(machine.currentState()).toEqual({ locomotion: 'walk', weapon: 'aim' });
+
+    machine.process({ fire: true });
+    expect(machine.currentState()).toEqual({ locomotion: 'idle', weapon: 'fire' });
+    expect(machine.previousState()).toEqual({ locomotion: 'walk', weapon: 'aim' });
+  });
+
+  it('initialises every region', () => {
+    const locomotionInit = jest.fn();
+    const weaponInit = jest.fn();
+    const machine = getMachine();
+
+    machine.regions.locomotion.andThen(locomotionInit);
+    machine.regions.weapon.andThen(weaponInit);
+    machine.init({});
+
+    expect(locomotionInit).toHaveBeenCalledTimes(1);
+    expect(weaponInit).toHaveBeenCalledTimes(1);
+  });
+
+  it('exposes the nested state path of each region', () => {
+    const machine = ParallelStateMachine<any>({
+      locomotion: StateMachine<any>('idle')
+        .transitionTo('walking').when(data => data.walk)
+        .nest(StateMachine<any>('slow').transitionTo('fast').when(data => data.fast)),
+      weapon: StateMachine<any>('holstered'),
+    });
+
+    machine.process({ walk: true });
+    machine.process({ fast: true });
+    expect(machine.currentStatePath()).toEqual({ locomotion: 'walking.fast', weapon: 'holstered' });
+  });
+
+  it('resets and stops every region', () => {
+    const machine = getMachine();
+    const onEndWalk = jest.fn();
+    machine.regions.locomotion.onEnd('walk', onEndWalk);
+
+    machine.process({ walk: true, aim: true });
+    machine.reset();
+    expect(machine.currentState()).toEqual({ locomotion: 'idle', weapon: 'idle' });
+
+    machine.init({}).process({ walk: true, aim: true });
+    machine.stop({});
+    expect(onEndWalk).toHaveBeenCalledTimes(1);
+    expect(machine.regions.weapon.isStopped()).toBe(true);
+  });
+
+  it('is done once every region is done', () => {
+    const machine = ParallelStateMachine<any>({
+      quest: StateMachine<any>('started').transitionTo('finished').when(data => data.quest).final(),
+      timer: StateMachine<any>('running').transitionTo('expired').when(data => data.expired).final(),
+    });
+
+    machine.process({ quest: true });
+    expect(machine.done).toBe(false);
+
+    machine.process({ expired: true });
+    expect(machine.done).toBe(true);
+  });
+
+  it('throws without any regions', () => {
+    expect(() => ParallelStateMachine({})).toThrow('ParallelStateMachine requires at least one region.');
+  });
+});
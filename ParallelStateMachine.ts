@@ -0,0 +1,70 @@
+import { TStateMachine } from './StateMachine';
+
+type Regions<TData> = { [region: string]: TStateMachine<TData, any> };
+type StateNameOf<TMachine> = TMachine extends TStateMachine<any, infer StateName> ? StateName : never;
+
+export type TParallelStateMachine<TData, TRegions extends Regions<TData> = Regions<TData>> = {
+  regions: TRegions;
+
+  // Top-level controls, applied to every region
+  init: (data: TData) => TParallelStateMachine<TData, TRegions>;
+  process: (data: TData) => TParallelStateMachine<TData, TRegions>;
+  currentState: () => { [Region in keyof TRegions]: StateNameOf<TRegions[Region]> };
+  currentStatePath: () => { [Region in keyof TRegions]: string };
+  previousState: () => { [Region in keyof TRegions]: StateNameOf<TRegions[Region]> | null };
+
+  // Lifecycle, applied to every region
+  reset: () => TParallelStateMachine<TData, TRegions>;
+  stop: (data: TData) => TParallelStateMachine<TData, TRegions>;
+  dispose: () => TParallelStateMachine<TData, TRegions>;
+  /** @description Whether every region has entered a final state */
+  readonly done: boolean;
+};
+
+const mapRegions = <TRegions extends Regions<any>, T>(regions: TRegions, fn: (machine: TRegions[keyof TRegions]) => T) =>
+  Object.keys(regions).reduce((result, region: keyof TRegions) => {
+    result[region] = fn(regions[region]);
+    return result;
+  }, {} as { [Region in keyof TRegions]: T });
+
+/**
+ * Combines several state machines into orthogonal regions that are all active at once,
+ * so that one process() call drives every region (in declaration order).
+ */
+export const ParallelStateMachine = <TData, TRegions extends Regions<TData> = Regions<TData>>(regions: TRegions): TParallelStateMachine<TData, TRegions> => {
+  if (!Object.keys(regions).length) {
+    throw new TypeError(`ParallelStateMachine requires at least one region.`);
+  }
+
+  const machine: TParallelStateMachine<TData, TRegions> = {
+    regions,
+    init: data => {
+      Object.values(regions).forEach(region => region.init(data));
+      return machine;
+    },
+    process: data => {
+      Object.values(regions).forEach(region => region.process(data));
+      return machine;
+    },
+    currentState: () => mapRegions(regions, region => region.currentState()),
+    currentStatePath: () => mapRegions(regions, region => region.currentStatePath()),
+    previousState: () => mapRegions(regions, region => region.previousState()),
+    reset: () => {
+      Object.values(regions).forEach(region => region.reset());
+      return machine;
+    },
+    stop: data => {
+      Object.values(regions).forEach(region => region.stop(data));
+      return machine;
+    },
+    dispose: () => {
+      Object.values(regions).forEach(region => region.dispose());
+      return machine;
+    },
+    get done() {
+      return Object.values(regions).every(region => region.done);
+    },
+  };
+
+  return machine;
+};
@@ -0,0 +1,140 @@
+import { describe, expect, jest, it } from '@jest/globals';
+
+import { StateMachine } from './StateMachine';
+import { ParallelStateMachine } from './ParallelStateMachine';
+import { InputRecorder, Replayer } from './Replay';
+
+const getMachine = () => StateMachine<any>('idle')
+  .transitionTo('chase').when(data => data.enemyDistance < 10)
+  .state('chase').transitionTo('attack').onEvent('IN_RANGE')
+  .transitionTo('idle').when(data => data.enemyDistance >= 10)
+  .state('attack').transitionTo('idle').after(2);
+
+const record = () => {
+  const recorder = InputRecorder(getMachine());
+  recorder
+    .init({ enemyDistance: 20 })
+    .process({ enemyDistance: 15 })
+    .process({ enemyDistance: 5 })
+    .send('IN_RANGE', {})
+    .process({ enemyDistance: 1 })
+    .process({ enemyDistance: 1 })
+    .process({ enemyDistance: 1 });
+  return recorder;
+};
+
+describe('InputRecorder', () => {
+  it('records data passed to the machine as frames', () => {
+    const recorder = record();
+
+    expect(recorder.machine.currentState()).toBe('idle');
+    expect(recorder.frames).toEqual([
+      { type: 'init', data: { enemyDistance: 20 } },
+      { type: 'process', data: { enemyDistance: 15 } },
+      { type: 'process', data: { enemyDistance: 5 } },
+      { type: 'send', event: 'IN_RANGE', data: {} },
+      { type: 'process', data: { enemyDistance: 1 } },
+      { type: 'process', data: { enemyDistance: 1 } },
+      { type: 'process', data: { enemyDistance: 1 } },
+    ]);
+  });
+
+  it('redacts data before recording it', () => {
+    const process = jest.fn();
+    const machine = getMachine().on('tick', process);
+    const recorder = InputRecorder(machine, { redact: ({ playerName, ...data }: any) => data });
+
+    recorder.init({ enemyDistance: 20, playerName: 'anon' }).process({ enemyDistance: 20, playerName: 'anon' });
+
+    expect(recorder.frames[1]).toEqual({ type: 'process', data: { enemyDistance: 20 } });
+    expect(process).toHaveBeenCalledWith({ enemyDistance: 20, playerName: 'anon' }, expect.anything());
+  });
+
+  it('copies data so reused objects are recorded as they were', () => {
+    const recorder = InputRecorder(getMachine());
+    const data = { enemyDistance: 20 };
+
+    recorder.init(data);
+    data.enemyDistance = 5;
+    recorder.process(data);
+
+    expect(recorder.frames.map(frame => frame.data)).toEqual([{ enemyDistance: 20 }, { enemyDistance: 5 }]);
+    expect(Replayer(getMachine, recorder.frames).steps().map(({ state }) => state)).toEqual(['idle', 'chase']);
+  });
+
+  it('keeps data by reference when copy is false', () => {
+    const data = { enemyDistance: 20, onHit: () => {} };
+    const recorder = InputRecorder(getMachine(), { copy: false }).init(data);
+
+    expect(recorder.frames[0].data).toBe(data);
+  });
+
+  it('records the options passed to init()', () => {
+    const recorder = InputRecorder(getMachine())
+      .init({ enemyDistance: 20 })
+      .process({ enemyDistance: 5 })
+      .init({ enemyDistance: 5 }, { history: 'shallow' });
+
+    expect(recorder.frames[2]).toEqual({ type: 'init', data: { enemyDistance: 5 }, options: { history: 'shallow' } });
+    expect(Replayer(getMachine, recorder.frames).steps().map(({ state }) => state)).toEqual(['idle', 'chase', 'chase']);
+  });
+
+  it('throws when driving the machine asynchronously', () => {
+    const recorder = InputRecorder(getMachine());
+
+    expect(() => {
+      recorder.initAsync({ enemyDistance: 20 });
+    }).toThrow('Cannot record initAsync() as frames are replayed synchronously, use init() instead.');
+    expect(() => {
+      recorder.processAsync({ enemyDistance: 20 });
+    }).toThrow('Cannot record processAsync() as frames are replayed synchronously, use process() instead.');
+  });
+
+  it('throws when sending events to a parallel state machine', () => {
+    const recorder = InputRecorder(ParallelStateMachine<any>({ ai: getMachine() }));
+
+    expect(() => {
+      recorder.send('IN_RANGE', {});
+    }).toThrow('Cannot send events to a machine without send(), such as a ParallelStateMachine.');
+  });
+});
+
+describe('Replayer', () => {
+  it('steps through frames on a fresh machine, reporting the state after each', () => {
+    const replayer = Replayer(getMachine, record().frames);
+
+    expect(replayer.step()).toEqual({ frame: 0, type: 'init', state: 'idle' });
+    expect(replayer.steps().map(({ state }) => state)).toEqual(['idle', 'chase', 'attack', 'attack', 'attack', 'idle']);
+    expect(replayer.step()).toBeUndefined();
+    expect(replayer.position).toBe(7);
+  });
+
+  it('can seek forwards and backwards to any frame', () => {
+    const replayer = Replayer(getMachine, record().frames);
+
+    expect(replayer.seek(3)).toEqual({ frame: 3, type: 'send', state: 'attack' });
+    expect(replayer.machine.states.attack.tickCount).toBe(0);
+
+    expect(replayer.seek(5).state).toBe('attack');
+    expect(replayer.machine.states.attack.tickCount).toBe(2);
+
+    const machine = replayer.machine;
+    expect(replayer.seek(2)).toEqual({ frame: 2, type: 'process', state: 'chase' });
+    expect(replayer.machine).not.toBe(machine);
+    expect(replayer.position).toBe(3);
+  });
+
+  it('replays parallel state machines', () => {
+    const recorder = InputRecorder(ParallelStateMachine<any>({ ai: getMachine() }));
+    recorder.init({ enemyDistance: 20 }).process({ enemyDistance: 5 });
+
+    const replayer = Replayer(() => ParallelStateMachine<any>({ ai: getMachine() }), recorder.frames);
+    expect(replayer.steps().map(({ state }) => state)).toEqual([{ ai: 'idle' }, { ai: 'chase' }]);
+  });
+
+  it('throws when seeking outside the frames', () => {
+    expect(() => {
+      Replayer(getMachine, record().frames).seek(7);
+    }).toThrow('Cannot seek to frame 7, there are 7 frames.');
+  });
+});
@@ -0,0 +1,133 @@
+import { TStateMachine } from './StateMachine';
+import { TParallelStateMachine } from './ParallelStateMachine';
+
+type Replayable<TData> = TStateMachine<TData, any> | TParallelStateMachine<TData>;
+
+type InitOptions = Parameters<TStateMachine<any>['init']>[1];
+
+export type Frame<TData> =
+  | { type: 'init', data: TData, options?: InitOptions }
+  | { type: 'process', data: TData }
+  | { type: 'send', event: string, data: TData };
+
+export type ReplayStep<TMachine extends Replayable<any>> = {
+  /** @description Index of the frame just replayed */
+  frame: number;
+  type: Frame<any>['type'];
+  state: ReturnType<TMachine['currentStatePath']>;
+};
+
+/**
+ * Drives a machine while capturing the data passed to init(), process() and send() as frames, which can be
+ * stored and handed to a Replayer. Data is copied with structuredClone() after redact, so later mutation doesn't
+ * change the recording; pass copy: false to keep it by reference, e.g. when data can't be cloned. The options given
+ * to init() are recorded too, while initAsync() and processAsync() throw as their frames couldn't be replayed.
+ */
+export const InputRecorder = <TData, TMachine extends Replayable<TData>>(
+  machine: TMachine,
+  { redact, copy = true }: { redact?: (data: TData) => TData, copy?: boolean } = {},
+) => {
+  const frames: Frame<TData>[] = [];
+  const capture = (data: TData) => {
+    const redacted = redact ? redact(data) : data;
+    return copy ? structuredClone(redacted) : redacted;
+  };
+
+  // frames are replayed synchronously, which can't reproduce awaited predicates and callbacks
+  const unsupported = (method: string) => (_data: TData): never => {
+    throw new TypeError(`Cannot record ${method}() as frames are replayed synchronously, use ${method.replace('Async', '')}() instead.`);
+  };
+
+  const recorder = {
+    machine,
+    frames,
+    init: (data: TData, options?: InitOptions) => {
+      frames.push({ type: 'init', data: capture(data), ...(options ? { options: { ...options } } : {}) });
+      machine.init(data, options);
+      return recorder;
+    },
+    process: (data: TData) => {
+      frames.push({ type: 'process', data: capture(data) });
+      machine.process(data);
+      return recorder;
+    },
+    send: (event: string, data: TData) => {
+      if (!('send' in machine)) {
+        throw new TypeError(`Cannot send events to a machine without send(), such as a ParallelStateMachine.`);
+      }
+      frames.push({ type: 'send', event, data: capture(data) });
+      machine.send(event, data);
+      return recorder;
+    },
+    initAsync: unsupported('initAsync'),
+    processAsync: unsupported('processAsync'),
+    clear: () => {
+      frames.splice(0);
+      return recorder;
+    },
+  };
+
+  return recorder;
+};
+
+/**
+ * Replays recorded frames against fresh machines from createMachine(), which should build the machine the
+ * frames were recorded from. Seeking backwards rebuilds the machine and replays from the first frame.
+ */
+export const Replayer = <TData, TMachine extends Replayable<TData>>(createMachine: () => TMachine, frames: Frame<TData>[]) => {
+  let machine = createMachine(),
+      // number of frames replayed so far
+      position = 0;
+
+  const replayFrame = () => {
+    const frame = frames[position++];
+
+    if (frame.type === 'send') {
+      (machine as TStateMachine<TData, any>).send(frame.event, frame.data);
+    } else if (frame.type === 'init') {
+      machine.init(frame.data, frame.options);
+    } else {
+      machine.process(frame.data);
+    }
+
+    return {
+      frame: position - 1,
+      type: frame.type,
+      state: machine.currentStatePath(),
+    } as ReplayStep<TMachine>;
+  };
+
+  const replayer = {
+    get machine() {
+      return machine;
+    },
+    get position() {
+      return position;
+    },
+    /** @description Replays the next frame, or returns undefined if every frame has been replayed */
+    step: () => position < frames.length ? replayFrame() : undefined,
+    /** @description Replays every remaining frame, reporting the state after each */
+    steps: () => {
+      const steps: ReplayStep<TMachine>[] = [];
+      while (position < frames.length) steps.push(replayFrame());
+      return steps;
+    },
+    /** @description Jumps to the state the machine was in after the frame at the given index */
+    seek: (index: number) => {
+      if (!Number.isInteger(index) || index < 0 || index >= frames.length) {
+        throw new TypeError(`Cannot seek to frame ${index}, there are ${frames.length} frames.`);
+      }
+      if (index < position) {
+        machine.dispose();
+        machine = createMachine();
+        position = 0;
+      }
+
+      let step = replayFrame();
+      while (position <= index) step = replayFrame();
+      return step;
+    },
+  };
+
+  return replayer;
+};
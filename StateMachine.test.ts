@@ -108,6 +108,57 @@ describe('StateMachine', () => {
     });
   });
 
+  describe('transition actions', () => {
+    it('runs action for its own transition only, between exit and init', () => {
+      const calls: string[] = [];
+      const machine = StateMachine<any>('idle').exit(() => calls.push('idle exit'))
+        .transitionTo('walk').when(data => data.walk).action(() => calls.push('start up'))
+        .andThen(() => calls.push('walk init'))
+        .transitionTo('run').when(data => data.run)
+        .state('run').transitionTo('walk').when(data => data.walk)
+        .state('walk').transitionTo('idle').when(data => !data.walk)
+        .transitionTo('run').when(data => data.run)
+        .init({});
+
+      machine.process({ walk: true });
+      expect(calls).toEqual(['idle exit', 'start up', 'walk init']);
+
+      calls.length = 0;
+      machine.process({ walk: true, run: true });
+      machine.process({ walk: true });
+      expect(machine.currentState()).toBe('walk');
+      expect(calls).toEqual(['walk init']);
+    });
+
+    it('passes data and transition metadata to action', () => {
+      const action = jest.fn();
+      const machine = StateMachine<any>('idle').forAtLeast(1)
+        .transitionTo('walk').when(data => data.walk).action(action);
+
+      machine.process({});
+      machine.process({ walk: true });
+      expect(action).toHaveBeenCalledWith({ walk: true }, { from: 'idle', to: 'walk', tickCount: 1, duration: null });
+    });
+
+    it('applies to each predicate of a when().or() chain', () => {
+      const action = jest.fn();
+      const machine = StateMachine<any>('idle')
+        .transitionTo('walk').when(data => data.walk).or(data => data.stroll).action(action)
+        .state('walk').transitionTo('idle').when(data => data.stop);
+
+      machine.process({ stroll: true });
+      machine.process({ stop: true });
+      machine.process({ walk: true });
+      expect(action).toHaveBeenCalledTimes(2);
+    });
+
+    it('throws if no transition has been declared to attach action to', () => {
+      expect(() => {
+        StateMachine<any>('idle').transitionTo('walk').action(jest.fn());
+      }).toThrow('action() must follow when(), or(), onEvent() or after() to know which transition it belongs to');
+    });
+  });
+
   describe('previousState()', () => {
     it('exposes the previous state the machine was in (NOT the previous tick)', () => {
       const machine = StateMachine<any, 'idle' | 'walk'>('idle')
@@ -432,9 +483,122 @@ describe('StateMachine', () => {
         expect(walkTick).toHaveBeenCalledTimes(2);
       });
     });
+
+    describe('after', () => {
+      it('transitions once the state has lasted the given ticks', () => {
+        const machine = StateMachine<any>('attack')
+          .transitionTo('recover').after(2)
+          .state('recover').transitionTo('attack').when(data => data.attack)
+          .init({});
+
+        machine.process({});
+        machine.process({});
+        expect(machine.currentState()).toBe('attack');
+
+        machine.process({});
+        expect(machine.currentState()).toBe('recover');
+        expect(machine.previousState()).toBe('attack');
+      });
+
+      it('transitions once the state has lasted the given duration', () => {
+        const machine = StateMachine<any>('idle')
+          .transitionTo('sleep').after(() => 3000, 'duration')
+          .state('sleep').transitionTo('idle').when(data => data.wake)
+          .init({ dt: 0 });
+
+        machine.process({ dt: 1000 });
+        machine.process({ dt: 1000 });
+        expect(machine.currentState()).toBe('idle');
+
+        machine.process({ dt: 1000 });
+        expect(machine.currentState()).toBe('sleep');
+      });
+
+      it('can be introspected and given actions', () => {
+        const onTimeout = jest.fn();
+        const machine = StateMachine<any>('idle')
+          .transitionTo('sleep').after(3000, 'duration').action(onTimeout)
+          .init({ dt: 0 });
+
+        const [transition] = machine.transitionsFrom('idle');
+        expect(transition.timeout).toEqual({ count: 3000, unit: 'duration' });
+
+        machine.process({ dt: 3000 });
+        expect(onTimeout).toHaveBeenCalledWith({ dt: 3000 }, { from: 'idle', to: 'sleep', tickCount: 0, duration: 3000 });
+      });
+
+      it('throws with invalid ticksOrDuration', () => {
+        expect(() => {
+          StateMachine<any>('idle').transitionTo('sleep').after(3, 'seconds' as any);
+        }).toThrow(`'ticksOrDuration' must be either 'ticks' or 'duration'`);
+      });
+    });
   });
 
   describe('events', () => {
+    describe('send()', () => {
+      it('takes transitions declared with onEvent() when the event is sent', () => {
+        const onJump = jest.fn();
+        const machine = StateMachine<any>('idle')
+          .transitionTo('jumping').onEvent('JUMP').andThen(onJump)
+          .state('jumping').transitionTo('idle').when(data => data.landed)
+          .init({});
+
+        machine.process({});
+        expect(machine.currentState()).toBe('idle');
+
+        machine.send('JUMP', { height: 2 });
+        expect(machine.currentState()).toBe('jumping');
+        expect(onJump).toHaveBeenCalledWith({ height: 2 }, { from: 'idle', to: 'jumping', tickCount: 0, duration: null });
+      });
+
+      it('never takes event transitions via process()', () => {
+        const machine = StateMachine<any>('idle')
+          .transitionTo('jumping').onEvent('JUMP');
+
+        machine.process({ JUMP: true });
+        expect(machine.currentState()).toBe('idle');
+
+        machine.send('RUN', {});
+        expect(machine.currentState()).toBe('idle');
+      });
+
+      it('checks optional guard against payload', () => {
+        const machine = StateMachine<any>('idle')
+          .transitionTo('jumping').onEvent('JUMP', data => data.grounded);
+
+        machine.send('JUMP', { grounded: false });
+        expect(machine.currentState()).toBe('idle');
+
+        machine.send('JUMP', { grounded: true });
+        expect(machine.currentState()).toBe('jumping');
+      });
+
+      it('applies the same forAtLeast gating as process()', () => {
+        const machine = StateMachine<any>('idle').forAtLeast(2)
+          .transitionTo('jumping').onEvent('JUMP')
+          .init({});
+
+        machine.send('JUMP', {});
+        machine.process({});
+        machine.send('JUMP', {});
+        expect(machine.currentState()).toBe('idle');
+
+        machine.process({});
+        machine.send('JUMP', {});
+        expect(machine.currentState()).toBe('jumping');
+      });
+
+      it('passes events the parent does not handle to nested machine', () => {
+        const machine = StateMachine<any>('idle')
+          .transitionTo('walking').when(data => data.walk)
+          .nest(StateMachine<any>('slow').transitionTo('fast').onEvent('SPRINT'));
+
+        machine.process({ walk: true });
+        machine.send('SPRINT', {});
+        expect(machine.currentStatePath()).toBe('walking.fast');
+      });
+    });
     it('can subscribe to state machine events', () => {
       const onWalk = jest.fn();
       const machine = StateMachine<any>('idle')
@@ -634,6 +798,1116 @@ describe('StateMachine', () => {
       expect(onIdle).toHaveBeenCalledTimes(3);
       expect(onWalk).toHaveBeenCalledTimes(2);
     });
+
+    it('can unsubscribe from tick, done and matcher subscriptions with off()', () => {
+      const onTick = jest.fn();
+      const onDone = jest.fn();
+      const onWalkFromIdle = jest.fn();
+      const onceWalk = jest.fn();
+
+      const machine = StateMachine<any>('idle')
+        .transitionTo('walk').when(data => data.walk)
+        .state('walk').transitionTo('idle').when(data => !data.walk)
+        .transitionTo('dead').when(data => data.dead)
+        .state('dead').final()
+        .on('tick', onTick)
+        .on('done', onDone)
+        .on({ from: 'idle', to: 'walk' }, onWalkFromIdle)
+        .once('walk', onceWalk)
+        .init({});
+
+      machine
+        .off('tick', onTick)
+        .off('done', onDone)
+        .off({ from: 'idle', to: 'walk' }, onWalkFromIdle)
+        .off('walk', onceWalk);
+
+      machine.process({ walk: true });
+      machine.process({ walk: true, dead: true });
+
+      expect(machine.done).toBe(true);
+      expect(onTick).not.toHaveBeenCalled();
+      expect(onDone).not.toHaveBeenCalled();
+      expect(onWalkFromIdle).not.toHaveBeenCalled();
+      expect(onceWalk).not.toHaveBeenCalled();
+    });
+
+    it('can subscribe to transitions from a state to anywhere', () => {
+      const onLeaveCombat = jest.fn();
+
+      const machine = StateMachine<any>('combat')
+        .transitionTo('idle').when(data => data.peace)
+        .transitionTo('dead').when(data => data.dead)
+        .state('idle').transitionTo('combat').when(data => data.enemy)
+        .on({ from: 'combat' }, onLeaveCombat)
+        .init({});
+
+      machine.process({});
+      expect(onLeaveCombat).not.toHaveBeenCalled();
+
+      machine.process({ peace: true });
+      expect(onLeaveCombat).toHaveBeenCalledWith({ peace: true }, { from: 'combat', to: 'idle', tickCount: 0, duration: null });
+
+      machine.process({ enemy: true });
+      machine.process({ dead: true });
+      expect(onLeaveCombat).toHaveBeenCalledTimes(2);
+      expect(onLeaveCombat).toHaveBeenLastCalledWith({ dead: true }, { from: 'combat', to: 'dead', tickCount: 0, duration: null });
+    });
+
+    it('can subscribe to transitions to any of a list of states', () => {
+      const onMove = jest.fn();
+
+      const machine = StateMachine<any>('idle')
+        .transitionTo('walk').when(data => data.walk)
+        .transitionTo('run').when(data => data.run)
+        .state('walk').transitionTo('idle').when(data => !data.walk)
+        .state('run').transitionTo('idle').when(data => !data.run)
+        .on({ to: ['walk', 'run'] }, onMove)
+        .init({});
+
+      machine.process({ walk: true });
+      machine.process({ walk: true });
+      machine.process({});
+      machine.process({ run: true });
+
+      expect(onMove).toHaveBeenCalledTimes(2);
+      expect(onMove.mock.calls.map(([, { to }]: any) => to)).toEqual(['walk', 'run']);
+    });
+
+    it('calls matcher subscriptions on transitions only, whatever their shape', () => {
+      const toWalk = jest.fn();
+      const toWalkList = jest.fn();
+      const fromIdle = jest.fn();
+
+      const machine = StateMachine<any>('idle')
+        .transitionTo('walk').when(data => data.walk)
+        .state('walk').transitionTo('idle').when(data => !data.walk)
+        .on({ to: 'walk' }, toWalk)
+        .on({ to: ['walk'] }, toWalkList)
+        .on({ from: 'idle' }, fromIdle)
+        .init({});
+
+      machine.process({ walk: true });
+      machine.process({ walk: true });
+      machine.process({ walk: true });
+
+      expect(toWalk).toHaveBeenCalledTimes(1);
+      expect(toWalkList).toHaveBeenCalledTimes(1);
+      expect(fromIdle).toHaveBeenCalledTimes(1);
+      expect(toWalk.mock.calls).toEqual(toWalkList.mock.calls);
+    });
+
+    it('does not call matcher subscriptions on ticks of the state they match, unlike onEvery()', () => {
+      const toWalk = jest.fn();
+      const everyWalk = jest.fn();
+
+      const machine = StateMachine<any>('idle')
+        .transitionTo('walk').when(data => data.walk)
+        .on({ to: 'walk' }, toWalk)
+        .onEvery('walk', everyWalk)
+        .init({});
+
+      machine.process({ walk: true });
+      machine.process({ walk: true });
+      machine.process({ walk: true });
+
+      expect(toWalk).toHaveBeenCalledTimes(1);
+      expect(toWalk).toHaveBeenCalledWith({ walk: true }, { from: 'idle', to: 'walk', tickCount: 0, duration: null });
+      expect(everyWalk).toHaveBeenCalledTimes(3);
+    });
+
+    it('can filter subscriptions on data and metadata', () => {
+      const onFastWalk = jest.fn();
+      const onTiredStop = jest.fn();
+
+      const machine = StateMachine<any>('idle')
+        .transitionTo('walk').when(data => data.walk)
+        .state('walk').transitionTo('idle').when(data => !data.walk)
+        .on({ to: 'walk', filter: data => data.speed > 5 }, onFastWalk)
+        .on({ from: 'walk', filter: (data, { to }) => to === 'idle' && data.tired }, onTiredStop)
+        .init({});
+
+      machine.process({ walk: true, speed: 1 });
+      machine.process({});
+      machine.process({ walk: true, speed: 10 });
+      machine.process({ walk: true });
+      machine.process({ tired: true });
+
+      expect(onFastWalk).toHaveBeenCalledTimes(1);
+      expect(onFastWalk).toHaveBeenCalledWith({ walk: true, speed: 10 }, { from: 'idle', to: 'walk', tickCount: 0, duration: null });
+      expect(onTiredStop).toHaveBeenCalledTimes(1);
+      expect(onTiredStop).toHaveBeenCalledWith({ tired: true }, { from: 'walk', to: 'idle', tickCount: 0, duration: null });
+    });
+
+    it('can unsubscribe from matchers without a single to state', () => {
+      const onLeave = jest.fn();
+
+      const machine = StateMachine<any>('idle')
+        .transitionTo('walk').when(data => data.walk)
+        .state('walk').transitionTo('idle').when(data => !data.walk)
+        .on({ from: 'idle' }, onLeave)
+        .off({ from: 'idle' }, onLeave)
+        .init({});
+
+      machine.process({ walk: true });
+      expect(onLeave).not.toHaveBeenCalled();
+    });
+
+    it('unsubscribes from matchers listing the same states in any order', () => {
+      const onMove = jest.fn();
+      const machine = StateMachine<any>('idle')
+        .transitionTo('walk').when(data => data.walk)
+        .transitionTo('run').when(data => data.run)
+        .on({ to: ['walk', 'run'] }, onMove)
+        .off({ to: ['run', 'walk'] }, onMove)
+        .init({});
+
+      machine.process({ walk: true });
+      expect(onMove).not.toHaveBeenCalled();
+    });
+
+    it('throws when subscribing via matcher to unknown states', () => {
+      expect(() => {
+        StateMachine<any, string>('idle').transitionTo('walk').on({ to: ['walk', 'run'] }, jest.fn());
+      }).toThrow(`Cannot subscribe to state 'run' because no state with that name exists.`);
+
+      expect(() => {
+        StateMachine<any, string>('combat').transitionTo('idle').on({ from: 'combta' }, jest.fn());
+      }).toThrow(`Cannot subscribe to state 'combta' because no state with that name exists.`);
+
+      expect(() => {
+        StateMachine<any, string>('combat').transitionTo('idle').on({ from: ['idle', 'combta'], to: 'idle' }, jest.fn());
+      }).toThrow(`Cannot subscribe to state 'combta' because no state with that name exists.`);
+    });
+
+    it('exposes a disposer for the latest subscription', () => {
+      const onWalk = jest.fn();
+      const onTick = jest.fn();
+
+      const machine = StateMachine<any>('idle')
+        .transitionTo('walk').when(data => data.walk)
+        .state('walk').transitionTo('idle').when(data => !data.walk)
+        .init({});
+
+      const disposeWalk = machine.on({ from: 'idle', to: 'walk' }, onWalk).disposer();
+      const disposeTick = machine.on('tick', onTick).disposer();
+
+      machine.process({ walk: true });
+      machine.process({ walk: true });
+      expect(onWalk).toHaveBeenCalledTimes(1);
+      expect(onTick).toHaveBeenCalledTimes(1);
+
+      expect(disposeWalk()).toBe(machine);
+      disposeTick();
+
+      machine.process({});
+      machine.process({ walk: true });
+      machine.process({ walk: true });
+      expect(onWalk).toHaveBeenCalledTimes(1);
+      expect(onTick).toHaveBeenCalledTimes(1);
+    });
+
+    it('throws if disposer() does not follow a subscription', () => {
+      expect(() => {
+        StateMachine('idle').disposer();
+      }).toThrow('disposer() must follow on(), once(), onEvery() or onEnd() to know which subscription it belongs to');
+    });
+  });
+
+  describe('nested states', () => {
+    const getMachine = (calls: string[] = []) => {
+      const log = (name: string) => () => { calls.push(name); };
+      const walking = StateMachine<any>('slow').andThen(log('slow init')).exit(log('slow exit'))
+        .transitionTo('fast').when(data => data.fast).andThen(log('fast init')).exit(log('fast exit'))
+        .state('fast').transitionTo('slow').when(data => !data.fast);
+
+      return StateMachine<any>('idle')
+        .transitionTo('walking').when(data => data.walk).andThen(log('walking init')).exit(log('walking exit'))
+        .nest(walking)
+        .transitionTo('jumping').when(data => data.jump)
+        .state('walking').transitionTo('jumping').when(data => data.jump)
+        .state('jumping').transitionTo('idle').when(data => data.idle);
+    };
+
+    it('processes the nested machine while its parent state is active', () => {
+      const machine = getMachine().init({});
+      expect(machine.currentStatePath()).toBe('idle');
+
+      machine.process({ walk: true });
+      expect(machine.currentState()).toBe('walking');
+      expect(machine.currentStatePath()).toBe('walking.slow');
+
+      machine.process({ walk: true, fast: true });
+      expect(machine.currentState()).toBe('walking');
+      expect(machine.currentStatePath()).toBe('walking.fast');
+
+      machine.process({ fast: false });
+      expect(machine.currentStatePath()).toBe('walking.slow');
+    });
+
+    it('gives parent transitions precedence over nested ones', () => {
+      const machine = getMachine().init({});
+
+      machine.process({ walk: true });
+      machine.process({ fast: true, jump: true });
+      expect(machine.currentStatePath()).toBe('jumping');
+    });
+
+    it('fires init callbacks outer-to-inner and exit callbacks inner-to-outer', () => {
+      const calls: string[] = [];
+      const machine = getMachine(calls).init({});
+
+      machine.process({ walk: true });
+      expect(calls).toEqual(['walking init', 'slow init']);
+
+      machine.process({ fast: true });
+      expect(calls).toEqual(['walking init', 'slow init', 'slow exit', 'fast init']);
+
+      calls.length = 0;
+      machine.process({ jump: true });
+      expect(calls).toEqual(['fast exit', 'walking exit']);
+    });
+
+    describe('history', () => {
+      const getMachine = (history?: 'shallow' | 'deep') => {
+        const combat = StateMachine<any>('melee').transitionTo('ranged').when(data => data.ranged);
+        const gameplay = StateMachine<any>('exploring')
+          .transitionTo('combat').when(data => data.enemy).nest(combat);
+
+        return StateMachine<any>('playing').nest(gameplay)
+          .transitionTo('paused').onEvent('PAUSE')
+          .nest(StateMachine<any>('main').transitionTo('options').onEvent('OPTIONS'))
+          .state('paused').transitionTo('playing', { history }).onEvent('RESUME')
+          .init({});
+      };
+
+      const pauseAndResume = (history?: 'shallow' | 'deep') => {
+        const machine = getMachine(history);
+        machine.process({ enemy: true });
+        machine.process({ ranged: true });
+        expect(machine.currentStatePath()).toBe('playing.combat.ranged');
+
+        machine.send('PAUSE', {});
+        machine.send('OPTIONS', {});
+        expect(machine.currentStatePath()).toBe('paused.options');
+
+        machine.send('RESUME', {});
+        return machine.currentStatePath();
+      };
+
+      it('restarts nested machine without history', () => {
+        expect(pauseAndResume()).toBe('playing.exploring');
+      });
+
+      it('resumes only the nested machine with shallow history', () => {
+        expect(pauseAndResume('shallow')).toBe('playing.combat.melee');
+      });
+
+      it('resumes every nested machine with deep history', () => {
+        expect(pauseAndResume('deep')).toBe('playing.combat.ranged');
+      });
+
+      it('fires init callbacks of the resumed states', () => {
+        const onCombat = jest.fn();
+        const machine = getMachine('shallow');
+        machine.states.playing.child?.on('combat', onCombat);
+
+        machine.process({ enemy: true });
+        machine.send('PAUSE', {});
+        machine.send('RESUME', {});
+        expect(onCombat).toHaveBeenCalledTimes(2);
+        expect(onCombat).toHaveBeenLastCalledWith({}, { from: null, to: 'combat', tickCount: 0, duration: null });
+      });
+
+      it('starts from the initial state if the nested machine was never entered', () => {
+        const machine = StateMachine<any>('idle')
+          .transitionTo('walking', { history: 'deep' }).when(data => data.walk)
+          .nest(StateMachine<any>('slow').transitionTo('fast').when(data => data.fast));
+
+        machine.process({ walk: true });
+        expect(machine.currentStatePath()).toBe('walking.slow');
+      });
+    });
+
+    it('restarts the nested machine from its initial state on re-entry', () => {
+      const machine = getMachine().init({});
+
+      machine.process({ walk: true });
+      machine.process({ fast: true });
+      machine.process({ jump: true });
+      machine.process({ idle: true });
+      machine.process({ walk: true });
+      expect(machine.currentStatePath()).toBe('walking.slow');
+    });
+  });
+
+  describe('snapshot() and restore()', () => {
+    const getMachine = (walkInit = jest.fn()) => StateMachine<any>('idle')
+      .transitionTo('walk').when(data => data.walk).andThen(walkInit).forAtLeast(3)
+      .state('walk').transitionTo('idle').when(data => !data.walk)
+      .timers();
+
+    it('returns JSON-serialisable runtime state', () => {
+      const machine = getMachine().once('walk', jest.fn()).init({ dt: 0 });
+
+      machine.process({ dt: 5 });
+      machine.process({ walk: true, dt: 5 });
+      machine.process({ walk: true, dt: 7 });
+
+      const snapshot = JSON.parse(JSON.stringify(machine.snapshot()));
+      expect(snapshot).toEqual({
+        current: 'walk',
+        previous: 'idle',
+        states: {
+          idle: { tickCount: 1, duration: 5, timesEnteredCount: 1, minTicks: 0, minDuration: 0, onceSubscriptions: 0 },
+          walk: { tickCount: 1, duration: 7, timesEnteredCount: 1, minTicks: 3, minDuration: 0, onceSubscriptions: 0 },
+        },
+      });
+    });
+
+    it('counts pending once subscriptions', () => {
+      const machine = getMachine().once('walk', jest.fn());
+      expect(machine.snapshot().states.walk.onceSubscriptions).toBe(1);
+
+      machine.process({ walk: true });
+      expect(machine.snapshot().states.walk.onceSubscriptions).toBe(0);
+    });
+
+    it('resumes from snapshot without firing callbacks', () => {
+      const source = getMachine().init({ dt: 0 });
+      source.process({ walk: true, dt: 1 });
+      source.process({ walk: true, dt: 1 });
+
+      const walkInit = jest.fn();
+      const machine = getMachine(walkInit).restore(source.snapshot());
+      expect(walkInit).not.toHaveBeenCalled();
+      expect(machine.currentState()).toBe('walk');
+      expect(machine.previousState()).toBe('idle');
+      expect(machine.states.walk.tickCount).toBe(1);
+      expect(machine.states.walk.duration).toBe(1);
+
+      // forAtLeast(3) picks up where the snapshot left off
+      machine.process({ walk: false, dt: 1 });
+      machine.process({ walk: false, dt: 1 });
+      expect(machine.currentState()).toBe('walk');
+      machine.process({ walk: false, dt: 1 });
+      expect(machine.currentState()).toBe('idle');
+    });
+
+    it('includes nested machines', () => {
+      const getNestedMachine = () => StateMachine<any>('idle')
+        .transitionTo('walking').when(data => data.walk)
+        .nest(StateMachine<any>('slow').transitionTo('fast').when(data => data.fast));
+
+      const source = getNestedMachine();
+      source.process({ walk: true });
+      source.process({ fast: true });
+
+      const machine = getNestedMachine().restore(source.snapshot());
+      expect(machine.currentStatePath()).toBe('walking.fast');
+    });
+
+    it('throws when snapshot refers to unknown states', () => {
+      expect(() => {
+        getMachine().restore({ current: 'run', previous: null, states: {} });
+      }).toThrow('Cannot restore snapshot with unknown states: run');
+    });
+  });
+
+  describe('validate()', () => {
+    it('reports nothing but dead ends for a well-formed graph', () => {
+      const machine = StateMachine<any>('idle')
+        .transitionTo('walk').when(data => data.walk)
+        .transitionTo('dead').onEvent('DIE')
+        .state('walk').transitionTo('idle').when(data => !data.walk);
+
+      expect(machine.validate()).toEqual({
+        unreachable: [],
+        deadEnds: ['dead'],
+        missingPredicates: [],
+        orphanSubscriptions: [],
+      });
+    });
+
+    it('reports transitions without predicates and the states they orphan', () => {
+      const machine = StateMachine<any>('idle')
+        .transitionTo('walk').when(data => data.walk)
+        // typo: meant to declare transition from walk
+        .transitionTo('run')
+        .state('run').transitionTo('sprint').when(data => data.sprint)
+        .state('sprint').transitionTo('idle').when(data => !data.sprint)
+        .onEnd('sprint', jest.fn());
+
+      expect(machine.validate()).toEqual({
+        unreachable: ['run', 'sprint'],
+        deadEnds: ['walk'],
+        missingPredicates: [{ from: 'idle', to: 'run' }],
+        orphanSubscriptions: ['sprint'],
+      });
+    });
+
+    it('reports subscriptions to unreachable states via matchers with a state or a list', () => {
+      const getMachine = () => StateMachine<any>('a')
+        .transitionTo('b').when(data => data.b)
+        .state('b').transitionTo('a').when(data => !data.b)
+        .transitionTo('c');
+
+      expect(getMachine().on({ to: 'c' }, jest.fn()).validate().orphanSubscriptions).toEqual(['c']);
+      expect(getMachine().on({ to: ['b', 'c'] }, jest.fn()).validate().orphanSubscriptions).toEqual(['c']);
+      expect(getMachine().on({ from: 'b' }, jest.fn()).validate().orphanSubscriptions).toEqual([]);
+    });
+
+    it('reports problems in nested machines with prefixed names', () => {
+      const machine = StateMachine<any>('idle')
+        .transitionTo('walking').when(data => data.walk)
+        .nest(StateMachine<any>('slow').transitionTo('fast'))
+        .state('walking').transitionTo('idle').when(data => !data.walk);
+
+      expect(machine.validate()).toEqual({
+        unreachable: ['walking.fast'],
+        deadEnds: [],
+        missingPredicates: [{ from: 'walking.slow', to: 'walking.fast' }],
+        orphanSubscriptions: [],
+      });
+    });
+  });
+
+  describe('processAsync()', () => {
+    const defer = () => {
+      let resolve: () => void = () => {};
+      const promise = new Promise<void>(r => { resolve = r; });
+      return { promise, resolve };
+    };
+
+    it('awaits async predicates', async () => {
+      const machine = StateMachine<any>('idle')
+        .transitionTo('walk').when(async data => data.walk);
+
+      await machine.processAsync({ walk: false });
+      expect(machine.currentState()).toBe('idle');
+
+      await machine.processAsync({ walk: true });
+      expect(machine.currentState()).toBe('walk');
+    });
+
+    it('throws on synchronous calls while async ones are pending', async () => {
+      const save = defer();
+      const exit = jest.fn(() => save.promise);
+      const machine = StateMachine<any>('a').exit(exit)
+        .transitionTo('b').when(() => true).onEvent('GO')
+        .init({});
+
+      const processed = machine.processAsync({});
+      const message = 'while processAsync() or initAsync() is pending, await it first.';
+      expect(() => machine.process({})).toThrow(`Cannot call process() ${message}`);
+
+      await new Promise(resolve => setTimeout(resolve, 0));
+      expect(machine.isTransitioning()).toBe(true);
+      expect(() => machine.process({})).toThrow(`Cannot call process() ${message}`);
+      expect(() => machine.send('GO', {})).toThrow(`Cannot call send() ${message}`);
+      expect(() => machine.init({})).toThrow(`Cannot call init() ${message}`);
+
+      save.resolve();
+      await processed;
+      expect(exit).toHaveBeenCalledTimes(1);
+      expect(machine.currentState()).toBe('b');
+      expect(() => machine.process({})).not.toThrow();
+    });
+
+    it('throws on lifecycle calls while async ones are pending', async () => {
+      const save = defer();
+      const machine = StateMachine<any>('a').exit(() => save.promise)
+        .transitionTo('b').when(() => true)
+        .init({});
+      const snapshot = machine.snapshot();
+
+      const processed = machine.processAsync({});
+      const message = 'while processAsync() or initAsync() is pending, await it first.';
+      expect(() => machine.reset()).toThrow(`Cannot call reset() ${message}`);
+      expect(() => machine.stop({})).toThrow(`Cannot call stop() ${message}`);
+      expect(() => machine.restore(snapshot)).toThrow(`Cannot call restore() ${message}`);
+      expect(() => machine.dispose()).toThrow(`Cannot call dispose() ${message}`);
+
+      save.resolve();
+      await processed;
+      expect(machine.currentState()).toBe('b');
+      expect(() => machine.restore(snapshot)).not.toThrow();
+      expect(machine.currentState()).toBe('a');
+    });
+
+    it('is transitioning from the time processAsync() is called until it settles, including while awaiting predicates', async () => {
+      const check = defer();
+      const machine = StateMachine<any>('idle')
+        .transitionTo('walk').when(() => check.promise.then(() => false))
+        .init({});
+
+      expect(machine.isTransitioning()).toBe(false);
+      const processed = machine.processAsync({});
+      expect(machine.isTransitioning()).toBe(true);
+
+      await new Promise(resolve => setTimeout(resolve, 0));
+      expect(machine.isTransitioning()).toBe(true);
+      expect(machine.currentState()).toBe('idle');
+
+      check.resolve();
+      await processed;
+      expect(machine.isTransitioning()).toBe(false);
+      expect(machine.states.idle.tickCount).toBe(1);
+    });
+
+    it('commits transition only after exit callbacks have finished', async () => {
+      const save = defer();
+      const walkInit = jest.fn();
+      const machine = StateMachine<any>('idle').exit(() => save.promise)
+        .transitionTo('walk').when(data => data.walk).andThen(walkInit);
+
+      const processed = machine.processAsync({ walk: true });
+      await new Promise(resolve => setTimeout(resolve, 0));
+      expect(machine.isTransitioning()).toBe(true);
+      expect(machine.currentState()).toBe('idle');
+      expect(walkInit).not.toHaveBeenCalled();
+
+      save.resolve();
+      await processed;
+      expect(machine.isTransitioning()).toBe(false);
+      expect(machine.currentState()).toBe('walk');
+      expect(walkInit).toHaveBeenCalledTimes(1);
+    });
+
+    it('queues overlapping calls rather than interleaving them', async () => {
+      const calls: string[] = [];
+      const machine = StateMachine<any>('idle')
+        .tick(async () => {
+          calls.push('idle tick start');
+          await new Promise(resolve => setTimeout(resolve, 5));
+          calls.push('idle tick end');
+        })
+        .transitionTo('walk').when(data => data.walk)
+        .andThen(async () => {
+          calls.push('walk init');
+        });
+
+      await Promise.all([
+        machine.processAsync({}),
+        machine.processAsync({ walk: true }),
+      ]);
+
+      expect(calls).toEqual(['idle tick start', 'idle tick end', 'walk init']);
+      expect(machine.currentState()).toBe('walk');
+    });
+
+    it('keeps processing queued calls after one rejects', async () => {
+      const machine = StateMachine<any>('idle')
+        .transitionTo('walk').when(async data => {
+          if (data.fail) throw new Error('Database unavailable');
+          return data.walk;
+        });
+
+      const failed = machine.processAsync({ fail: true });
+      const processed = machine.processAsync({ walk: true });
+
+      await expect(failed).rejects.toThrow('Database unavailable');
+      await processed;
+      expect(machine.currentState()).toBe('walk');
+    });
+
+    it('awaits nested machines', async () => {
+      const slowInit = defer();
+      const machine = StateMachine<any>('idle')
+        .transitionTo('walking').when(data => data.walk)
+        .nest(StateMachine<any>('slow').andThen(() => slowInit.promise).transitionTo('fast').when(async data => data.fast));
+
+      let entered = false;
+      const processed = machine.processAsync({ walk: true }).then(() => { entered = true; });
+      await new Promise(resolve => setTimeout(resolve, 0));
+      expect(entered).toBe(false);
+
+      slowInit.resolve();
+      await processed;
+      await machine.processAsync({ fast: true });
+      expect(machine.currentStatePath()).toBe('walking.fast');
+    });
+
+    it('throws if process() is given an async predicate', () => {
+      const machine = StateMachine<any>('idle')
+        .transitionTo('walk').when(async data => data.walk);
+
+      expect(() => machine.process({ walk: true }))
+        .toThrow(`Predicate for transition to 'walk' returned a promise, use processAsync() instead.`);
+    });
+  });
+
+  describe('initAsync()', () => {
+    it('awaits init callbacks of the initial state', async () => {
+      let saved = false;
+      const machine = StateMachine<any>('idle').andThen(async () => {
+        await Promise.resolve();
+        saved = true;
+      });
+
+      await machine.initAsync({});
+      expect(saved).toBe(true);
+    });
+  });
+
+  describe('lifecycle', () => {
+    const getMachine = () => StateMachine<any>('idle')
+      .transitionTo('walk').when(data => data.walk)
+      .state('walk').transitionTo('idle').when(data => !data.walk)
+      .timers();
+
+    describe('reset()', () => {
+      it('returns to initial state and zeroes counters without firing callbacks', () => {
+        const idleInit = jest.fn();
+        const machine = getMachine().andThen(idleInit).init({ dt: 0 });
+
+        machine.process({ walk: true, dt: 1 });
+        machine.process({ walk: true, dt: 1 });
+        machine.reset();
+
+        expect(idleInit).toHaveBeenCalledTimes(1);
+        expect(machine.currentState()).toBe('idle');
+        expect(machine.previousState()).toBe(null);
+        expect(machine.snapshot().states).toEqual({
+          idle: { tickCount: 0, duration: null, timesEnteredCount: 0, minTicks: 0, minDuration: 0, onceSubscriptions: 0 },
+          walk: { tickCount: 0, duration: null, timesEnteredCount: 0, minTicks: 0, minDuration: 0, onceSubscriptions: 0 },
+        });
+      });
+
+      it('resets nested machines', () => {
+        const machine = StateMachine<any>('idle')
+          .transitionTo('walking').when(data => data.walk)
+          .nest(StateMachine<any>('slow').transitionTo('fast').when(data => data.fast));
+
+        machine.process({ walk: true });
+        machine.process({ fast: true });
+        machine.reset();
+
+        expect(machine.states.walking.child?.currentState()).toBe('slow');
+      });
+
+      it('makes process() and send() throw until init() enters the initial state', () => {
+        const idleInit = jest.fn();
+        const machine = getMachine()
+          .andThen(idleInit)
+          .forAtLeast(100, 'duration')
+          .transitionTo('run').onEvent('RUN')
+          .init({ dt: 0 });
+
+        machine.process({ dt: 100 }).process({ walk: true, dt: 10 });
+        machine.reset();
+
+        expect(() => machine.process({ walk: true, dt: 10 }))
+          .toThrow('Cannot process a reset state machine, call init() to enter its initial state.');
+        expect(() => machine.send('RUN', {}))
+          .toThrow('Cannot process a reset state machine, call init() to enter its initial state.');
+
+        machine.init({ dt: 0 });
+        machine.process({ walk: true, dt: 10 });
+        expect(idleInit).toHaveBeenCalledTimes(2);
+        expect(machine.currentState()).toBe('idle');
+        expect(machine.states.idle.duration).toBe(10);
+      });
+    });
+
+    describe('stop()', () => {
+      it('fires exit callbacks of the current state, inner-to-outer', () => {
+        const calls: string[] = [];
+        const machine = StateMachine<any>('idle')
+          .transitionTo('walking').when(data => data.walk).exit(() => calls.push('walking exit'))
+          .nest(StateMachine<any>('slow').exit(() => calls.push('slow exit')));
+
+        machine.process({ walk: true });
+        machine.stop({});
+        machine.stop({});
+
+        expect(calls).toEqual(['slow exit', 'walking exit']);
+        expect(machine.isStopped()).toBe(true);
+      });
+
+      it('makes process() and send() throw until restarted', () => {
+        const machine = getMachine().init({});
+        machine.stop({});
+
+        expect(() => machine.process({ walk: true }))
+          .toThrow('Cannot process a stopped state machine, call init() to restart it.');
+        expect(() => machine.send('WALK', {}))
+          .toThrow('Cannot process a stopped state machine, call init() to restart it.');
+
+        machine.init({});
+        machine.process({ walk: true });
+        expect(machine.currentState()).toBe('walk');
+      });
+    });
+
+    describe('dispose()', () => {
+      it('drops all subscriptions but keeps declared callbacks', () => {
+        const onWalk = jest.fn();
+        const onTick = jest.fn();
+        const onceWalk = jest.fn();
+        const walkExit = jest.fn();
+        const machine = getMachine()
+          .state('walk').exit(walkExit)
+          .on('walk', onWalk)
+          .on({ from: 'idle', to: 'walk' }, onWalk)
+          .onEvery('walk', onWalk)
+          .onEnd('walk', onWalk)
+          .once('walk', onceWalk)
+          .on('tick', onTick)
+          .dispose();
+
+        machine.process({});
+        machine.process({ walk: true });
+        machine.process({ walk: true });
+        machine.process({});
+
+        expect(onWalk).not.toHaveBeenCalled();
+        expect(onTick).not.toHaveBeenCalled();
+        expect(onceWalk).not.toHaveBeenCalled();
+        expect(walkExit).toHaveBeenCalledTimes(1);
+      });
+    });
+  });
+
+  describe('final states', () => {
+    const getMachine = () => StateMachine<any>('idle')
+      .transitionTo('dead').when(data => data.hp <= 0)
+      .state('dead').final();
+
+    it('sets done once a final state is entered', () => {
+      const machine = getMachine().init({ hp: 10 });
+      expect(machine.done).toBe(false);
+
+      machine.process({ hp: 0 });
+      expect(machine.currentState()).toBe('dead');
+      expect(machine.done).toBe(true);
+    });
+
+    it('calls done subscribers with final data and metadata', () => {
+      const onDone = jest.fn();
+      const machine = getMachine().on('done', onDone);
+
+      machine.process({ hp: 5 });
+      expect(onDone).not.toHaveBeenCalled();
+
+      machine.process({ hp: 0 });
+      expect(onDone).toHaveBeenCalledTimes(1);
+      expect(onDone).toHaveBeenCalledWith({ hp: 0 }, { from: 'idle', to: 'dead', tickCount: 0, duration: null });
+    });
+
+    it('stops processing once done', () => {
+      const onTick = jest.fn();
+      const machine = getMachine().on('tick', onTick);
+
+      machine.process({ hp: 0 });
+      machine.process({ hp: 0 });
+      expect(onTick).not.toHaveBeenCalled();
+      expect(machine.states.dead.tickCount).toBe(0);
+    });
+
+    it('is no longer done after reset()', () => {
+      const machine = getMachine();
+      machine.process({ hp: 0 });
+      machine.reset();
+      expect(machine.done).toBe(false);
+    });
+
+    it('throws when declaring transitions from a final state', () => {
+      expect(() => {
+        getMachine().transitionTo('idle').when(() => true);
+      }).toThrow(`Cannot transition from final state: 'dead'`);
+
+      expect(() => {
+        StateMachine<any>('idle').transitionTo('walk').when(() => true).state('idle').final();
+      }).toThrow(`Cannot make state 'idle' final because it has transitions.`);
+    });
+
+    it('is not reported as a dead end by validate()', () => {
+      expect(getMachine().validate().deadEnds).toEqual([]);
+    });
+  });
+
+  describe('fromAny()', () => {
+    const getMachine = (options?: { except?: string[], priority?: 'first' | 'last' }) => StateMachine<any>('idle')
+      .transitionTo('walk').when(data => data.walk)
+      .state('walk').transitionTo('stunned').when(data => data.hit)
+      .state('stunned').transitionTo('idle').when(data => !data.hit)
+      .fromAny(options).transitionTo('dead').when(data => data.hp <= 0)
+      .state('dead').final();
+
+    it('transitions from every state', () => {
+      ['idle', 'walk', 'stunned'].forEach(stateName => {
+        const machine = getMachine().restore({ current: stateName, previous: null, states: {} });
+        machine.process({ hp: 0 });
+        expect(machine.currentState()).toBe('dead');
+      });
+    });
+
+    it('is checked before state-local transitions by default', () => {
+      const machine = getMachine();
+      machine.process({ walk: true });
+      machine.process({ hit: true, hp: 0 });
+      expect(machine.currentState()).toBe('dead');
+    });
+
+    it('can be checked after state-local transitions', () => {
+      const machine = getMachine({ priority: 'last' });
+      machine.process({ walk: true });
+      machine.process({ hit: true, hp: 0 });
+      expect(machine.currentState()).toBe('stunned');
+
+      machine.process({ hit: true, hp: 0 });
+      expect(machine.currentState()).toBe('dead');
+    });
+
+    it('skips excluded states', () => {
+      const machine = getMachine({ except: ['stunned'] });
+      machine.process({ walk: true });
+      machine.process({ hit: true });
+      machine.process({ hit: true, hp: 0 });
+      expect(machine.currentState()).toBe('stunned');
+    });
+
+    it('supports events and actions', () => {
+      const onStun = jest.fn();
+      const machine = StateMachine<any>('idle')
+        .transitionTo('walk').when(data => data.walk)
+        .fromAny({ except: ['stunned'] }).transitionTo('stunned').onEvent('STUN').action(onStun)
+        .state('stunned').transitionTo('idle').when(data => data.recovered);
+
+      machine.process({ walk: true });
+      machine.send('STUN', {});
+      machine.send('STUN', {});
+      expect(machine.currentState()).toBe('stunned');
+      expect(onStun).toHaveBeenCalledTimes(1);
+      expect(onStun).toHaveBeenCalledWith({}, { from: 'walk', to: 'stunned', tickCount: 0, duration: null });
+    });
+
+    it('is included in transitionsFrom() and validate()', () => {
+      const machine = getMachine();
+      expect(machine.transitionsFrom('walk').map(({ state }) => state)).toEqual(['dead', 'stunned']);
+      expect(machine.transitionsFrom('dead')).toEqual([]);
+      expect(machine.validate()).toEqual({
+        unreachable: [],
+        deadEnds: [],
+        missingPredicates: [],
+        orphanSubscriptions: [],
+      });
+    });
+  });
+
+  describe('self-transitions', () => {
+    it('re-enters the state with reenter option', () => {
+      const calls: string[] = [];
+      const machine = StateMachine<any>('idle')
+        .transitionTo('attack').onEvent('ATTACK')
+        .state('attack').andThen(() => calls.push('attack init')).exit(() => calls.push('attack exit'))
+        .transitionTo('attack', { self: 'reenter' }).onEvent('ATTACK')
+        .timers()
+        .init({ dt: 0 });
+
+      machine.send('ATTACK', {});
+      machine.process({ dt: 5 });
+      expect(machine.states.attack.tickCount).toBe(1);
+      expect(machine.states.attack.duration).toBe(5);
+
+      machine.send('ATTACK', {});
+      expect(calls).toEqual(['attack init', 'attack exit', 'attack init']);
+      expect(machine.currentState()).toBe('attack');
+      expect(machine.previousState()).toBe('attack');
+      expect(machine.states.attack.tickCount).toBe(0);
+      expect(machine.states.attack.duration).toBe(0);
+    });
+
+    it('only runs actions with internal option', () => {
+      const attackInit = jest.fn();
+      const combo = jest.fn();
+      const machine = StateMachine<any>('attack').andThen(attackInit)
+        .transitionTo('attack', { self: 'internal' }).when(data => data.attack).action(combo)
+        .init({});
+
+      machine.process({});
+      machine.process({ attack: true });
+      expect(attackInit).toHaveBeenCalledTimes(1);
+      expect(combo).toHaveBeenCalledWith({ attack: true }, { from: 'attack', to: 'attack', tickCount: 1, duration: null });
+      expect(machine.states.attack.tickCount).toBe(2);
+    });
+
+    it('still throws on accidental self-transitions by default', () => {
+      expect(() => {
+        StateMachine('attack').transitionTo('attack');
+      }).toThrow(`Cannot transition to same state: 'attack'`);
+    });
+
+    it('throws if self option is used for a transition to another state', () => {
+      expect(() => {
+        StateMachine<any, 'idle' | 'attack'>('idle').transitionTo('attack', { self: 'reenter' });
+      }).toThrow(`'self' option is only valid for transitions from 'idle' to itself, not to 'attack'`);
+    });
+  });
+
+  describe('context and assign()', () => {
+    type Combo = { hits: number, ticksInCombo: number };
+
+    const getMachine = () => StateMachine<any, string, Combo>('idle', { hits: 0, ticksInCombo: 0 })
+      .transitionTo('combo').onEvent('HIT').assign(({ hits }) => ({ hits: hits + 1 }))
+      .assign(({ ticksInCombo }) => ({ ticksInCombo: ticksInCombo + 1 }), 'tick')
+      .state('combo')
+      .transitionTo('combo', { self: 'internal' }).onEvent('HIT').assign(({ hits }) => ({ hits: hits + 1 }))
+      .transitionTo('finisher').when((data, { context }) => context.hits >= 3);
+
+    it('is initialised when the machine is created', () => {
+      const machine = getMachine();
+      expect(machine.context).toEqual({ hits: 0, ticksInCombo: 0 });
+    });
+
+    it('is updated on transitions and ticks and readable in predicates', () => {
+      const machine = getMachine().init({});
+
+      machine.send('HIT', {});
+      machine.process({});
+      machine.send('HIT', {});
+      expect(machine.context).toEqual({ hits: 2, ticksInCombo: 1 });
+      expect(machine.currentState()).toBe('combo');
+
+      machine.send('HIT', {});
+      machine.process({});
+      expect(machine.currentState()).toBe('finisher');
+      expect(machine.context).toEqual({ hits: 3, ticksInCombo: 1 });
+    });
+
+    it('replaces rather than mutates the context', () => {
+      const machine = getMachine().init({});
+      const initial = machine.context;
+
+      machine.send('HIT', {});
+      expect(initial).toEqual({ hits: 0, ticksInCombo: 0 });
+      expect(machine.context).not.toBe(initial);
+    });
+
+    it('is passed to callbacks after earlier updates', () => {
+      const onCombo = jest.fn();
+      const action = jest.fn();
+      const machine = StateMachine<any, string, Combo>('idle', { hits: 0, ticksInCombo: 0 })
+        .transitionTo('combo').onEvent('HIT').assign(({ hits }) => ({ hits: hits + 1 })).action(action)
+        .on('combo', onCombo)
+        .init({});
+
+      machine.send('HIT', {});
+      expect(action).toHaveBeenCalledWith({}, expect.objectContaining({ context: { hits: 1, ticksInCombo: 0 } }));
+      expect(onCombo).toHaveBeenCalledWith({}, expect.objectContaining({ context: { hits: 1, ticksInCombo: 0 } }));
+    });
+
+    it('is restored by reset() and init()', () => {
+      const machine = getMachine().init({});
+
+      machine.send('HIT', {});
+      machine.reset();
+      expect(machine.context).toEqual({ hits: 0, ticksInCombo: 0 });
+
+      machine.init({}).send('HIT', {});
+      machine.init({});
+      expect(machine.context).toEqual({ hits: 0, ticksInCombo: 0 });
+    });
+
+    it('is included in snapshots', () => {
+      const machine = getMachine().init({});
+
+      machine.send('HIT', {});
+      const snapshot = machine.snapshot();
+      expect(snapshot.context).toEqual({ hits: 1, ticksInCombo: 0 });
+
+      const restored = getMachine().init({}).restore(snapshot);
+      expect(restored.context).toEqual({ hits: 1, ticksInCombo: 0 });
+    });
+
+    it('throws if assign() does not follow a transition', () => {
+      expect(() => {
+        StateMachine<any>('idle', {}).assign(() => ({}));
+      }).toThrow(`assign() must follow when(), or(), onEvent() or after() to know which transition it belongs to, or be given 'tick'`);
+    });
+  });
+
+  describe('runToCompletion()', () => {
+    const getMachine = () => StateMachine<any>('loading')
+      .transitionTo('ready').when(data => data.loaded)
+      .state('ready').transitionTo('playing').when(data => data.autoplay)
+      .state('playing').transitionTo('paused').when(data => data.paused)
+      .state('paused').transitionTo('playing').when(data => !data.paused);
+
+    it('takes one transition per process() by default', () => {
+      const machine = getMachine().init({});
+
+      machine.process({ loaded: true, autoplay: true });
+      expect(machine.currentState()).toBe('ready');
+    });
+
+    it('keeps taking eventless transitions until the machine is stable', () => {
+      const calls: string[] = [];
+      const machine = getMachine()
+        .on('ready', () => calls.push('ready'))
+        .onEvery('playing', () => calls.push('playing'))
+        .runToCompletion()
+        .init({});
+
+      machine.process({ loaded: true, autoplay: true });
+      expect(machine.currentState()).toBe('playing');
+      expect(machine.previousState()).toBe('ready');
+      expect(calls).toEqual(['ready', 'playing']);
+    });
+
+    it('stops at states which must last longer', () => {
+      const machine = getMachine().state('ready').forAtLeast(1).runToCompletion().init({});
+
+      machine.process({ loaded: true, autoplay: true });
+      expect(machine.currentState()).toBe('ready');
+
+      machine.process({ loaded: true, autoplay: true });
+      expect(machine.currentState()).toBe('ready');
+
+      machine.process({ loaded: true, autoplay: true });
+      expect(machine.currentState()).toBe('playing');
+    });
+
+    it('throws when exceeding the maximum number of steps', () => {
+      const machine = StateMachine<any>('ping')
+        .transitionTo('pong').when(() => true)
+        .state('pong').transitionTo('ping').when(() => true)
+        .runToCompletion(3)
+        .init({});
+
+      expect(() => {
+        machine.process({});
+      }).toThrow('Exceeded 3 transitions in a single process() or send(), the machine may be looping: ping -> pong -> ping -> pong -> ping');
+    });
+
+    it('keeps taking eventless transitions after an event transition', () => {
+      const machine = StateMachine<any>('a')
+        .transitionTo('b').onEvent('GO')
+        .state('b').transitionTo('c').when(() => true)
+        .runToCompletion()
+        .init({});
+
+      machine.send('GO', {});
+      expect(machine.currentState()).toBe('c');
+      expect(machine.previousState()).toBe('b');
+    });
+
+    it('runs to completion with processAsync()', async () => {
+      const machine = getMachine()
+        .state('ready').transitionTo('playing').when(async data => data.autoplay)
+        .runToCompletion()
+        .init({});
+
+      await machine.processAsync({ loaded: true, autoplay: true });
+      expect(machine.currentState()).toBe('playing');
+    });
+
+    it('throws with invalid maxSteps', () => {
+      expect(() => {
+        StateMachine('idle').runToCompletion(0);
+      }).toThrow(`'maxSteps' must be a positive integer`);
+    });
   });
 
   describe('timers()', () => {
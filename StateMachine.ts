@@ -1,9 +1,11 @@
-type Metadata<TData, StateName extends string = string> = {
+type Metadata<TData, StateName extends string = string, TContext = any> = {
   from: StateName | null,
   to: StateName,
   tickCount: number,
   delta?: number,
   duration: number | null,
+  /** @description The machine's context, see assign() */
+  context: TContext,
   shouldUnsubscribe?: (
     dataWithMeta: {
       data: TData,
@@ -14,10 +16,22 @@ type Metadata<TData, StateName extends string = string> = {
     }
   ) => boolean };
 
-type InitData<StateName extends string = string> = { from: StateName | null; recordDuration: boolean };
-type Callback<TData, StateName extends string = string> = (() => void) | ((data: TData) => void) | ((data: TData, metadata: Metadata<TData, StateName>) => void);
-type InitCallback<TData, StateName extends string = string> = (data: TData, metadata: InitData<StateName>) => void;
-type TickCallback<TData> = (data: TData, metadata: { delta?: number }) => void;
+// Matches transitions for on(): omitted states match any state and lists match any of their states.
+// Matchers are only checked on transitions, not ticks, so use onEvery() to be called on each tick of a state.
+export type Matcher<TData, StateName extends string = string> = Omit<Partial<Metadata<TData, StateName>>, 'from' | 'to'> & {
+  from?: StateName | StateName[],
+  to?: StateName | StateName[],
+  filter?: (data: TData, metadata: Metadata<TData, StateName>) => boolean,
+};
+
+type History = 'shallow' | 'deep';
+type InitData<StateName extends string = string> = { from: StateName | null; recordDuration: boolean; history?: History; async?: boolean; context?: unknown };
+// Callbacks may return a promise, which is awaited when driven by processAsync() and ignored by process()
+export type Callback<TData, StateName extends string = string, TContext = any> = (() => void) | ((data: TData) => void) | ((data: TData, metadata: Metadata<TData, StateName, TContext>) => void);
+// Returns the context properties to update, which are merged into a new context object
+export type Updater<TData, StateName extends string = string, TContext = any> = (context: TContext, data: TData, metadata: Metadata<TData, StateName, TContext>) => Partial<TContext>;
+type InitCallback<TData, StateName extends string = string> = (data: TData, metadata: InitData<StateName>) => void | Promise<void>;
+type TickCallback<TData> = (data: TData, metadata: { delta?: number, context?: unknown }) => void | Promise<void>;
 
 export type State<TData, StateName extends string = string> = {
   name: StateName;
@@ -30,67 +44,196 @@ export type State<TData, StateName extends string = string> = {
   setExit: (fn: Callback<TData, StateName>) => void;
   minTicks: number | (() => number);
   minDuration: number | (() => number);
+  constraints: { minTicks: number | (() => number), minDuration: number | (() => number) };
   tickCount: number;
   duration: number | null;
   stateChangeSubscriptions: Callback<TData, StateName>[];
   stateTickSubscriptions: Callback<TData, StateName>[];
   stateEndSubscriptions: Callback<TData, StateName>[];
-  subscriptionsViaMatcher: [Partial<Metadata<TData, StateName>>, Callback<TData, StateName>][];
+  child: TStateMachine<TData, any> | null;
+  setChild: (machine: TStateMachine<TData, any>) => void;
+  timesEnteredCount: number;
+  // once() subscriptions are held by the machine, which adds their count
+  snapshot: () => Omit<StateSnapshot, 'onceSubscriptions'>;
+  restore: (snapshot: StateSnapshot) => void;
+  reset: () => void;
+  dispose: () => void;
+  final: boolean;
+  setFinal: () => void;
 }
 
+export type StateSnapshot = {
+  tickCount: number;
+  duration: number | null;
+  timesEnteredCount: number;
+  minTicks: number;
+  minDuration: number;
+  /** @description The number of `once` subscriptions still waiting to fire, for information only */
+  onceSubscriptions: number;
+  child?: MachineSnapshot;
+};
+
+export type MachineSnapshot<StateName extends string = string> = {
+  current: StateName;
+  previous: StateName | null;
+  context?: unknown;
+  states: { [Key: string]: StateSnapshot };
+};
+
+export type ValidationReport = {
+  /** @description States that no chain of transitions from the initial state leads to */
+  unreachable: string[];
+  /** @description Non-final states with no outgoing transitions (not reported for nested machines, which their parent can exit) */
+  deadEnds: string[];
+  /** @description Transitions declared with transitionTo() that never got a predicate or event */
+  missingPredicates: { from: string, to: string }[];
+  /** @description Unreachable states that still have subscriptions registered */
+  orphanSubscriptions: string[];
+};
+
 type StateDict<TData, StateName extends string = string> = { [Key: string]: State<TData, StateName> }
-type Predicate<TData> = { (data: TData, metadata: { tickCount: number, duration?: number }): boolean }
+// Predicates may only return a promise when driven by processAsync()
+export type Predicate<TData, TContext = any> = { (data: TData, metadata: { tickCount: number, duration?: number, context: TContext }): boolean | Promise<boolean> }
 
 type PredicateTransition<TData, StateName extends string = string> = {
   predicate: Predicate<TData>,
   state: StateName, // could be State rather than string?
+  event?: string, // only taken via send(event), never by process()
+  timeout?: Timeout, // declared via after(), which generates the predicate
+  history?: History,
+  actions?: Callback<TData, StateName>[], // run between exit and init, for this transition only
+  self?: SelfTransition,
+  // transitions declared via fromAny() only
+  except?: StateName[],
+  priority?: AnyStatePriority,
+};
+
+type Timeout = { count: number | (() => number), unit: 'ticks' | 'duration' };
+
+type AnyStatePriority = 'first' | 'last';
+
+type AnyStateOptions<StateName extends string = string> = {
+  /** @description States the transitions don't apply to */
+  except?: StateName[],
+  /** @description Whether the transitions are checked before (default) or after each state's own transitions */
+  priority?: AnyStatePriority,
+};
+
+type SelfTransition = 'reenter' | 'internal';
+
+type TransitionOptions = {
+  /**
+   * @description Resume a nested machine where it was last left, rather than from its initial state.
+   * 'shallow' resumes the nested machine only, 'deep' also resumes any machines nested within it.
+   */
+  history?: History,
+  /**
+   * @description Opt in to a transition from a state to itself.
+   * 'reenter' exits and re-initialises the state, 'internal' only runs the transition's actions and the state keeps ticking.
+   */
+  self?: SelfTransition,
 };
 
-export type TStateMachine<TData, StateName extends string = string> = {
+export type TStateMachine<TData, StateName extends string = string, TContext = any> = {
   // Builder functions for declaring state graph
-  transitionTo: (stateName: StateName) => TStateMachine<TData, StateName>;
-  when: (predicate: Predicate<TData>) => TStateMachine<TData, StateName>;
-  or: (predicate: Predicate<TData>) => TStateMachine<TData, StateName>;
-  andThen: (init: Callback<TData, StateName>) => TStateMachine<TData, StateName>;
-  tick: (tick: Callback<TData, StateName>) => TStateMachine<TData, StateName>;
-  exit: (exit: Callback<TData, StateName>) => TStateMachine<TData, StateName>;
-  forAtLeast: (countOrFn: number | (() => number), ticksOrDuration?: 'ticks' | 'duration') => TStateMachine<TData, StateName>;
-  state: (stateName: StateName) => TStateMachine<TData, StateName>;
+  transitionTo: (stateName: StateName, options?: TransitionOptions) => TStateMachine<TData, StateName, TContext>;
+  when: (predicate: Predicate<TData, TContext>) => TStateMachine<TData, StateName, TContext>;
+  or: (predicate: Predicate<TData, TContext>) => TStateMachine<TData, StateName, TContext>;
+  onEvent: (eventName: string, guard?: Predicate<TData, TContext>) => TStateMachine<TData, StateName, TContext>;
+  action: (fn: Callback<TData, StateName, TContext>) => TStateMachine<TData, StateName, TContext>;
+  /**
+   * @description Update the context on the latest transition, like action(), or on every tick of the state if 'tick' is given.
+   * The updater returns the properties to change rather than mutating the context.
+   */
+  assign: (updater: Updater<TData, StateName, TContext>, transitionOrTick?: 'transition' | 'tick') => TStateMachine<TData, StateName, TContext>;
+  andThen: (init: Callback<TData, StateName, TContext>) => TStateMachine<TData, StateName, TContext>;
+  tick: (tick: Callback<TData, StateName, TContext>) => TStateMachine<TData, StateName, TContext>;
+  exit: (exit: Callback<TData, StateName, TContext>) => TStateMachine<TData, StateName, TContext>;
+  forAtLeast: (countOrFn: number | (() => number), ticksOrDuration?: 'ticks' | 'duration') => TStateMachine<TData, StateName, TContext>;
+  /** @description Transition once the state has lasted the given number of ticks or duration, the counterpart to forAtLeast() */
+  after: (countOrFn: number | (() => number), ticksOrDuration?: 'ticks' | 'duration') => TStateMachine<TData, StateName, TContext>;
+  state: (stateName: StateName) => TStateMachine<TData, StateName, TContext>;
+  fromAny: (options?: AnyStateOptions<StateName>) => TStateMachine<TData, StateName, TContext>;
+  nest: (child: TStateMachine<TData, any>) => TStateMachine<TData, StateName, TContext>;
+  final: () => TStateMachine<TData, StateName, TContext>;
 
   // Event subscription
-  on:      (stateName: StateName | Partial<Metadata<TData, StateName>>, fn: Callback<TData, StateName>, modifier?: 'begin' | 'every' | 'end') => TStateMachine<TData, StateName>;
-  once:    (stateName: StateName, fn: Callback<TData, StateName>) => TStateMachine<TData, StateName>;
-  off:     (stateName: StateName, fn: Callback<TData, StateName>) => TStateMachine<TData, StateName>;
-  onEvery: (stateName: StateName, fn: Callback<TData, StateName>) => TStateMachine<TData, StateName>;
-  onEnd:   (stateName: StateName, fn: Callback<TData, StateName>) => TStateMachine<TData, StateName>;
+  on:      (stateName: StateName | 'tick' | 'done' | Matcher<TData, StateName>, fn: Callback<TData, StateName, TContext>, modifier?: 'begin' | 'every' | 'end') => TStateMachine<TData, StateName, TContext>;
+  once:    (stateName: StateName, fn: Callback<TData, StateName, TContext>) => TStateMachine<TData, StateName, TContext>;
+  off:     (stateName: StateName | 'tick' | 'done' | Matcher<TData, StateName>, fn: Callback<TData, StateName, TContext>) => TStateMachine<TData, StateName, TContext>;
+  onEvery: (stateName: StateName, fn: Callback<TData, StateName, TContext>) => TStateMachine<TData, StateName, TContext>;
+  onEnd:   (stateName: StateName, fn: Callback<TData, StateName, TContext>) => TStateMachine<TData, StateName, TContext>;
+  /** @description Returns a function which removes the subscription added by the latest on(), once(), onEvery() or onEnd() */
+  disposer: () => () => TStateMachine<TData, StateName, TContext>;
 
   // Top-level controls
   currentState: () => StateName;
+  currentStatePath: () => string;
   previousState: () => StateName | null;
-  process: (data: TData) => TStateMachine<TData, StateName>;
-  init: (data: TData) => TStateMachine<TData, StateName>;
-  timers: (deltaAlias?: string) => TStateMachine<TData, StateName>;
+  process: (data: TData) => TStateMachine<TData, StateName, TContext>;
+  send: (eventName: string, payload: TData) => TStateMachine<TData, StateName, TContext>;
+  init: (data: TData, options?: { history?: History }) => TStateMachine<TData, StateName, TContext>;
+  processAsync: (data: TData) => Promise<TStateMachine<TData, StateName, TContext>>;
+  initAsync: (data: TData, options?: { history?: History }) => Promise<TStateMachine<TData, StateName, TContext>>;
+  /** @description Whether a processAsync() or initAsync() call is queued or still running, including while it awaits predicates */
+  isTransitioning: () => boolean;
+  readonly context: TContext;
 
+  // Lifecycle
+  /** @description Returns to the initial state without entering it, so call init() before processing again */
+  reset: () => TStateMachine<TData, StateName, TContext>;
+  stop: (data: TData) => TStateMachine<TData, StateName, TContext>;
+  isStopped: () => boolean;
+  dispose: () => TStateMachine<TData, StateName, TContext>;
+  /** @description Whether the machine has entered a final state */
+  readonly done: boolean;
+  timers: (deltaAlias?: string) => TStateMachine<TData, StateName, TContext>;
+  /**
+   * @description Keep taking eventless transitions within a single process() or send() call until no more are satisfied,
+   * throwing if more than maxSteps transitions are taken as the machine is probably looping.
+   */
+  runToCompletion: (maxSteps?: number) => TStateMachine<TData, StateName, TContext>;
+  snapshot: () => MachineSnapshot<StateName>;
+  restore: (snapshot: MachineSnapshot<StateName>) => TStateMachine<TData, StateName, TContext>;
+  validate: () => ValidationReport;
+
+  // Introspection
+  transitionsFrom: (stateName: StateName) => PredicateTransition<TData, StateName>[];
+  initialState: StateName;
   states: StateDict<TData, StateName>;
 };
 
 const toNumber = (val: number | (() => number)) => typeof val === 'number' ? val : val();
 
-const callMatchingSubscriptions = <T, S extends string>(data: T, metadata: Metadata<T, S>) =>
-  ([matcher, callback]: [Metadata<T, S>, Callback<T, S>]): void => {
-    if (
-      (!matcher.from || matcher.from === metadata.from) &&
-      (!matcher.to || matcher.to === metadata.to)
-    ) {
-      callback(data, metadata);
-    }
-  };
+const isThenable = (val: unknown): val is PromiseLike<unknown> => typeof (val as PromiseLike<unknown>)?.then === 'function';
 
-const filterByMatcher = <T, S extends string>(metadata: Partial<Metadata<T>>) => {
-  return ([matcher]: [Metadata<T, S>, Callback<T, S>]) => {
-    return (!matcher.from || matcher.from === metadata.from) &&
-    (!matcher.to || matcher.to === metadata.to)
-  }
+// Returns a promise that settles once every returned promise has, or nothing if all results were synchronous
+const settle = (results: unknown[]): void | Promise<void> => {
+  const pending = results.filter(isThenable);
+  if (pending.length) return Promise.all(pending).then(() => {});
+};
+
+const matchesState = <S extends string>(expected: S | S[] | undefined, actual: S | null) =>
+  !expected || (Array.isArray(expected) ? expected.includes(actual as S) : expected === actual);
+
+const matches = <T, S extends string>(matcher: Matcher<T, S>, data: T, metadata: Metadata<T, S>) =>
+  matchesState(matcher.from, metadata.from) &&
+  matchesState(matcher.to, metadata.to) &&
+  (!matcher.filter || matcher.filter(data, metadata));
+
+// whether two matchers' from or to name the same states, in any order
+const sameStates = <S extends string>(a: S | S[] | undefined, b: S | S[] | undefined) => {
+  const [x, y] = [a, b].map(states => new Set(states === undefined ? [] : Array.isArray(states) ? states : [states]));
+  return x.size === y.size && [...x].every(state => y.has(state));
+};
+
+const filterByMatcher = <T, S extends string>(data: T, metadata: Metadata<T, S>) => {
+  return ([matcher]: [Matcher<T, S>, Callback<T, S>]) => matches(matcher, data, metadata);
+};
+
+const remove = <T>(array: T[], item: T) => {
+  const index = array.indexOf(item);
+  if (index > -1) array.splice(index, 1);
 };
 
 const State = <TData, StateName extends string = string>(
@@ -101,17 +244,17 @@ const State = <TData, StateName extends string = string>(
   // event subscriptions
   const stateChangeSubscriptions: Callback<TData, StateName>[] = [],
         stateTickSubscriptions: Callback<TData, StateName>[] = [],
-        stateEndSubscriptions: Callback<TData, StateName>[] = [];
+        stateEndSubscriptions: Callback<TData, StateName>[] = [],
+        // declared via exit(), so kept apart from subscriptions dropped by dispose()
+        exitCallbacks: Callback<TData, StateName>[] = [];
 
-  // These tuples represent subscriptions to a state via a transition matcher:
-  // [matcher, callback] where the matcher will be matched against the metadata of each transition
-  // to determine whether the callback should be called.
-  let subscriptionsViaMatcher: [Metadata<TData, StateName>, Callback<TData, StateName>][] = [],
-      minTicks = 0,
+  let minTicks = 0,
       minDuration = 0,
       tickCount = 0,
       timesEnteredCount = 0,
-      duration: number | null = null;
+      duration: number | null = null,
+      child: TStateMachine<TData, any> | null = null,
+      final = false;
 
   // TODO: treat all subscriptions as equal,
   // here calling init(fn) makes fn a special case kind of subscription
@@ -129,21 +272,23 @@ const State = <TData, StateName extends string = string>(
       to: name,
       tickCount,
       duration,
+      context: initData.context,
     };
-    fn(data, metadata);
-    stateChangeSubscriptions.forEach(subscription => subscription(data, metadata));
-    stateTickSubscriptions.forEach(subscription => subscription(data, metadata));
-
-    const matchedSubscriptions = subscriptionsViaMatcher.filter(filterByMatcher<TData, StateName>(metadata));
-    matchedSubscriptions.forEach(([, callback]) => callback(data, metadata));
+    const results: unknown[] = [
+      fn(data, metadata),
+      ...stateChangeSubscriptions.map(subscription => subscription(data, metadata)),
+      ...stateTickSubscriptions.map(subscription => subscription(data, metadata)),
+    ];
 
-    // remove subscriptions that should be unsubscribed
-    const shouldUnsubscribe = matchedSubscriptions.filter(([matcher]) => matcher.shouldUnsubscribe?.({ data, timesEnteredCount, tickCount }));
-    subscriptionsViaMatcher = subscriptionsViaMatcher.filter(sub => !shouldUnsubscribe.includes(sub));
+    // nested machine is entered after its parent (outer-to-inner)
+    if (child) {
+      results.push(initData.async ? child.initAsync(data, { history: initData.history }) : child.init(data, { history: initData.history }));
+    }
+    return settle(results);
   };
 
-  const ticker = (fn: Callback<TData, StateName> = () => {}) => (data: TData, tickMetadata: { delta?: number }) => {
-    const { delta } = tickMetadata;
+  const ticker = (fn: Callback<TData, StateName> = () => {}) => (data: TData, tickMetadata: { delta?: number, context?: unknown }) => {
+    const { delta, context } = tickMetadata;
     if (delta && typeof duration === 'number') duration += delta;
 
     tickCount++;
@@ -153,12 +298,13 @@ const State = <TData, StateName extends string = string>(
       to: name,
       tickCount,
       duration,
+      context,
     };
 
-    stateTickSubscriptions.forEach(subscription => subscription(data, metadata));
-    subscriptionsViaMatcher.forEach(callMatchingSubscriptions(data, metadata));
-
-    fn(data, metadata);
+    return settle([
+      ...stateTickSubscriptions.map(subscription => subscription(data, metadata)),
+      fn(data, metadata),
+    ]);
   };
 
   let init = initialiser(),
@@ -170,7 +316,6 @@ const State = <TData, StateName extends string = string>(
     stateChangeSubscriptions,
     stateTickSubscriptions,
     stateEndSubscriptions,
-    subscriptionsViaMatcher,
 
     get tickCount() {
       return tickCount;
@@ -180,6 +325,24 @@ const State = <TData, StateName extends string = string>(
       return duration;
     },
 
+    get timesEnteredCount() {
+      return timesEnteredCount;
+    },
+
+    get child() {
+      return child;
+    },
+
+    get final() {
+      return final;
+    },
+    setFinal() {
+      final = true;
+    },
+    setChild(machine) {
+      child = machine;
+    },
+
     setInit(fn) {
       init = initialiser(fn);
     },
@@ -208,11 +371,61 @@ const State = <TData, StateName extends string = string>(
       return minDuration;
     },
 
+    // the forAtLeast values as declared, rather than as computed on entry
+    get constraints() {
+      return { minTicks: getMinTicks, minDuration: getMinDuration };
+    },
+
     setExit(fn) {
-      stateEndSubscriptions.push(fn);
+      exitCallbacks.push(fn);
     },
     exit(data: TData, metadata: Metadata<TData, StateName>) {
-      stateEndSubscriptions.forEach(subscription => subscription(data, metadata));
+      const results: unknown[] = [];
+
+      // nested machine is exited before its parent (inner-to-outer)
+      if (child) {
+        const childState = child.states[child.currentState()];
+        results.push(childState.exit(data, {
+          from: childState.name,
+          to: metadata.to,
+          tickCount: childState.tickCount,
+          duration: childState.duration,
+          context: child.context,
+        }));
+      }
+      results.push(
+        ...exitCallbacks.map(fn => fn(data, metadata)),
+        ...stateEndSubscriptions.map(subscription => subscription(data, metadata)),
+      );
+      return settle(results);
+    },
+
+    snapshot() {
+      return {
+        tickCount,
+        duration,
+        timesEnteredCount,
+        minTicks,
+        minDuration,
+        ...(child ? { child: child.snapshot() } : {}),
+      };
+    },
+    restore(snapshot) {
+      ({ tickCount, duration, timesEnteredCount, minTicks, minDuration } = snapshot);
+      if (child && snapshot.child) child.restore(snapshot.child);
+    },
+    reset() {
+      tickCount = timesEnteredCount = minTicks = minDuration = 0;
+      duration = null;
+      child?.reset();
+    },
+    dispose() {
+      [
+        stateChangeSubscriptions,
+        stateTickSubscriptions,
+        stateEndSubscriptions,
+      ].forEach(subscriptions => subscriptions.splice(0));
+      child?.dispose();
     },
   }
 };
@@ -223,37 +436,346 @@ export const preventTransitionToSameState = <StateName extends string>(a: StateN
   }
 };
 
-export const StateMachine = <TData, StateName extends string = string>(initialState: StateName): TStateMachine<TData, StateName> => {
+export const preventTransitionFromFinalState = <TData, StateName extends string>(state: State<TData, StateName>) => {
+  if (state.final) {
+    throw new Error(`Cannot transition from final state: '${state.name}'`);
+  }
+};
+
+export const StateMachine = <TData, StateName extends string = string, TContext = any>(initialState: StateName, initialContext?: TContext): TStateMachine<TData, StateName, TContext> => {
   const states: StateDict<TData, StateName> = {
     [initialState]: State(initialState),
   };
 
   // subscriptions
-  const onTicks: Callback<TData, StateName>[] = [];
+  const onTicks: Callback<TData, StateName>[] = [],
+        onDone: Callback<TData, StateName>[] = [],
+        // [matcher, callback] tuples from on(matcher) and once(), which are matched against every transition (not ticks)
+        transitionSubscriptions: [Matcher<TData, StateName>, Callback<TData, StateName>][] = [];
+
+  // context updates declared via assign(..., 'tick'), by state name
+  const tickUpdaters: { [stateName: string]: Updater<TData, StateName, TContext>[] } = {};
+
+  // every [from, to] pair passed to transitionTo(), so validate() can find those never given a predicate
+  const declaredTransitions: [StateName, StateName][] = [];
+
+  // holds transitions declared via fromAny(), which apply to every state
+  const anyState = State<TData, StateName>('*' as StateName);
 
   // states used by the monad when building state graph
   let homeState = states[initialState],
       destState = homeState,
+      destOptions: TransitionOptions = {},
+      anyStateOptions: AnyStateOptions<StateName> = {},
       currentStateName = initialState,
       prevStateName: StateName | null = null,
-      deltaAlias: string | undefined;
+      context = initialContext as TContext,
+      deltaAlias: string | undefined,
+      // transitions added by the latest when() or onEvent() and any or() after it, for action() to apply to
+      latestTransitions: PredicateTransition<TData, StateName>[] = [],
+      stopped = false,
+      // set by reset(), as the initial state hasn't been entered again until init()
+      awaitingInit = false,
+      // set by runToCompletion(), otherwise process() takes one transition at most
+      maxSteps = 0,
+      // removes the subscription added by the latest on(), for disposer() to hand out
+      latestUnsubscribe: (() => void) | null = null,
+      // processAsync() and initAsync() calls wait for those before them to finish
+      queue: Promise<unknown> = Promise.resolve(),
+      // number of processAsync() and initAsync() calls yet to finish
+      pending = 0;
+
+  const isPermitted = ({ tickCount, minTicks, minDuration }: State<TData, StateName>, duration: number | null) =>
+    tickCount >= toNumber(minTicks) && (duration as number) >= toNumber(minDuration);
+
+  const addTransition = (transition: PredicateTransition<TData, StateName>, or = false) => {
+    if (!transition.self) preventTransitionToSameState(homeState.name, destState.name);
+    preventTransitionFromFinalState(homeState);
+
+    const declared = homeState === anyState ? { ...transition, ...anyStateOptions } : transition;
+    homeState.transitions.push(declared);
+    latestTransitions = or ? [...latestTransitions, declared] : [declared];
+  };
+
+  // a state's own transitions, along with those from any state that apply to it, in the order they're checked
+  const transitionsFrom = (stateName: StateName) => {
+    if (states[stateName].final) return [];
+
+    const fromAny = anyState.transitions.filter(({ state, except = [] }) => state !== stateName && !except.includes(stateName));
+    return [
+      ...fromAny.filter(({ priority }) => priority !== 'last'),
+      ...states[stateName].transitions,
+      ...fromAny.filter(({ priority }) => priority === 'last'),
+    ];
+  };
+
+  const enqueue = <T>(job: () => Promise<T>) => {
+    pending++;
+    const result = queue.then(job).finally(() => {
+      pending--;
+    });
+    queue = result.catch(() => {});
+    return result;
+  };
+
+  // synchronous calls can't wait their turn, so they must not interleave with queued async ones
+  const assertIdle = (method: string) => {
+    if (pending) {
+      throw new Error(`Cannot call ${method}() while processAsync() or initAsync() is pending, await it first.`);
+    }
+  };
+
+  const isSatisfied = (transition: PredicateTransition<TData, StateName>, data: TData, metadata: { tickCount: number, duration?: number }) => {
+    const result = transition.predicate(data, { ...metadata, context });
+    if (isThenable(result)) {
+      throw new Error(`Predicate for transition to '${transition.state}' returned a promise, use processAsync() instead.`);
+    }
+    return result;
+  };
+
+  // delta and accumulated duration of the current state, as they will be if this data is ticked
+  const timing = (data: TData) => {
+    const currentState = states[currentStateName];
+
+    if (currentState.minDuration && !deltaAlias) {
+      machine.timers();
+    }
+
+    const delta = deltaAlias ? (data as { [key: string]: number | undefined })[deltaAlias] ?? null : null;
+    // TODO: move logic into state object
+    const duration = deltaAlias ? (currentState.duration || 0) + (delta || 0) : null;
+    return { delta, duration };
+  };
+
+  // updaters return the properties to change, so the context is replaced rather than mutated
+  const update = (updater: Updater<TData, StateName, TContext>, data: TData, metadata: Metadata<TData, StateName, TContext>) => {
+    context = { ...context, ...updater(context, data, metadata) };
+  };
+
+  const assertRunning = () => {
+    if (awaitingInit) {
+      throw new Error(`Cannot process a reset state machine, call init() to enter its initial state.`);
+    }
+    if (stopped) {
+      throw new Error(`Cannot process a stopped state machine, call init() to restart it.`);
+    }
+  };
+
+  // 'done' subscribers are called once a final state has been entered
+  const notifyDone = (data: TData, from: StateName | null) => {
+    const finalState = states[currentStateName];
+    if (!finalState.final) return;
+
+    return settle(onDone.map(fn => fn(data, {
+      from,
+      to: currentStateName,
+      tickCount: finalState.tickCount,
+      duration: finalState.duration,
+      context,
+    })));
+  };
+
+  const notifyTransitionSubscribers = (data: TData, from: StateName | null) => {
+    const { tickCount, duration, timesEnteredCount } = states[currentStateName];
+    const metadata: Metadata<TData, StateName> = { from, to: currentStateName, tickCount, duration, context };
+
+    const matchedSubscriptions = transitionSubscriptions.filter(filterByMatcher(data, metadata));
+    const results = matchedSubscriptions.map(([, callback]) => callback(data, metadata));
+
+    matchedSubscriptions
+      .filter(([matcher]) => matcher.shouldUnsubscribe?.({ data, timesEnteredCount, tickCount }))
+      .forEach(sub => remove(transitionSubscriptions, sub));
+    return settle(results);
+  };
+
+  const enter = (data: TData, history?: History, async = false) => {
+    stopped = awaitingInit = false;
+
+    // with history, a machine that has been entered before resumes its last state
+    if (!history || !states[currentStateName].timesEnteredCount) {
+      currentStateName = initialState;
+      prevStateName = null;
+      context = initialContext as TContext;
+    }
+
+    return settle([
+      states[currentStateName].init(data, {
+        from: null,
+        recordDuration: !!deltaAlias,
+        history: history === 'deep' ? history : undefined,
+        async,
+        context,
+      }),
+      notifyTransitionSubscribers(data, null),
+      notifyDone(data, null),
+    ]);
+  };
+
+  const takeTransition = (transition: PredicateTransition<TData, StateName>, data: TData, duration: number | null, async = false) => {
+    const currentState = states[currentStateName];
+    const nextState = states[transition.state];
+    const metadata: Metadata<TData, StateName> = {
+      from: currentStateName,
+      to: transition.state,
+      tickCount: currentState.tickCount,
+      duration,
+      context,
+    };
+    // actions see the context as updated by any assign() before them
+    const runActions = () => settle((transition.actions || []).map(action => action(data, { ...metadata, context })));
+
+    if (transition.self === 'internal') {
+      return runActions();
+    }
+
+    const commit = () => {
+      prevStateName = currentStateName
+      currentStateName = nextState.name;
+
+      return settle([
+        nextState.init(data, {
+          from: currentState.name,
+          recordDuration: !!deltaAlias,
+          history: transition.history,
+          async,
+          context,
+        }),
+        notifyTransitionSubscribers(data, currentState.name),
+        notifyDone(data, currentState.name),
+      ]);
+    };
+
+    if (!async) {
+      currentState.exit(data, metadata);
+      runActions();
+      commit();
+      return;
+    }
+
+    // the transition only commits once the exit callbacks and actions have finished
+    return Promise.resolve(currentState.exit(data, metadata))
+      .then(runActions)
+      .then(commit);
+  };
+
+  // internal transitions don't change state, so they never keep a run to completion going
+  const isChainable = (transition: PredicateTransition<TData, StateName>) => !transition.event && transition.self !== 'internal';
+
+  // path is every state entered by this process() or send() call so far, starting with the state it was called in
+  const assertWithinSteps = (path: StateName[]) => {
+    if (path.length - 1 > maxSteps) {
+      throw new Error(`Exceeded ${maxSteps} transitions in a single process() or send(), the machine may be looping: ${path.join(' -> ')}`);
+    }
+  };
+
+  // with runToCompletion(), eventless transitions are taken from each state entered until one is stable
+  const runToCompletion = (data: TData, path: StateName[]) => {
+    while (maxSteps && !machine.done) {
+      const currentState = states[currentStateName];
+      const { tickCount, duration } = currentState;
+      const transition = transitionsFrom(currentStateName).find(
+        transition => isChainable(transition) && isSatisfied(transition, data, { tickCount, duration: duration as number }));
+
+      if (!transition || !isPermitted(currentState, duration)) return;
+
+      path.push(transition.state);
+      assertWithinSteps(path);
+      takeTransition(transition, data, duration);
+    }
+  };
+
+  const runToCompletionAsync = async (data: TData, path: StateName[]) => {
+    while (maxSteps && !machine.done) {
+      const currentState = states[currentStateName];
+      const { tickCount, duration } = currentState;
+
+      let transition: PredicateTransition<TData, StateName> | undefined;
+      for (const candidate of transitionsFrom(currentStateName)) {
+        if (isChainable(candidate) && await candidate.predicate(data, { tickCount, duration: duration as number, context })) {
+          transition = candidate;
+          break;
+        }
+      }
+
+      if (!transition || !isPermitted(currentState, duration)) return;
+
+      path.push(transition.state);
+      assertWithinSteps(path);
+      await takeTransition(transition, data, duration, true);
+    }
+  };
+
+  const tickCurrentState = (data: TData, delta: number | null, duration: number | null) => {
+    const currentState = states[currentStateName];
+    const { tickCount } = currentState;
+
+    (tickUpdaters[currentStateName] || []).forEach(updater => update(updater, data, {
+      from: currentStateName,
+      to: currentStateName,
+      tickCount,
+      duration,
+      context,
+    }));
+
+    return settle([
+      currentState.tick(data, { delta: delta ?? undefined, context }),
+      ...onTicks.map(fn => fn(data, {
+        from: currentStateName,
+        to: currentStateName,
+        tickCount,
+        duration,
+        context,
+      })),
+    ]);
+  };
 
-  const machine: TStateMachine<TData, StateName> = {
-    transitionTo: stateName => {
-      preventTransitionToSameState(stateName, homeState.name);
+  const machine: TStateMachine<TData, StateName, TContext> = {
+    transitionTo: (stateName, options = {}) => {
+      if (!options.self) {
+        preventTransitionToSameState(stateName, homeState.name);
+      } else if (stateName !== homeState.name) {
+        throw new TypeError(`'self' option is only valid for transitions from '${homeState.name}' to itself, not to '${stateName}'`);
+      }
       destState = states[stateName] = states[stateName] || State(stateName);
+      destOptions = options;
+      latestTransitions = [];
+      declaredTransitions.push([homeState.name, stateName]);
       return machine;
     },
     when: predicate => {
-      preventTransitionToSameState(homeState.name, destState.name);
-      homeState.transitions.push({ predicate, state: destState.name });
+      addTransition({ predicate, state: destState.name, ...destOptions });
       return machine;
     },
     or: predicate => {
-      preventTransitionToSameState(homeState.name, destState.name);
-      homeState.transitions.push({ predicate, state: destState.name });
+      addTransition({ predicate, state: destState.name, ...destOptions }, true);
+      return machine;
+    },
+    onEvent: (event, guard) => {
+      addTransition({ predicate: guard || (() => true), state: destState.name, event, ...destOptions });
       return machine;
     },
+    action: fn => {
+      if (!latestTransitions.length) {
+        throw new TypeError(`action() must follow when(), or(), onEvent() or after() to know which transition it belongs to`);
+      }
+      latestTransitions.forEach(transition => {
+        transition.actions = [...(transition.actions || []), fn];
+      });
+      return machine;
+    },
+    assign: (updater, transitionOrTick = 'transition') => {
+      if (transitionOrTick !== 'transition' && transitionOrTick !== 'tick') {
+        throw new TypeError(`'transitionOrTick' must be either 'transition' or 'tick'`)
+      }
+      if (transitionOrTick === 'tick') {
+        tickUpdaters[destState.name] = [...(tickUpdaters[destState.name] || []), updater];
+        return machine;
+      }
+      if (!latestTransitions.length) {
+        throw new TypeError(`assign() must follow when(), or(), onEvent() or after() to know which transition it belongs to, or be given 'tick'`);
+      }
+      return machine.action((data: TData, metadata: Metadata<TData, StateName, TContext>) => update(updater, data, metadata));
+    },
     andThen: (fn: Callback<TData, StateName>) => {
       destState.setInit(fn);
       return machine;
@@ -281,71 +803,194 @@ export const StateMachine = <TData, StateName extends string = string>(initialSt
       }
       return machine
     },
+    after: (countOrFn, ticksOrDuration = 'ticks') => {
+      if (ticksOrDuration !== 'ticks' && ticksOrDuration !== 'duration') {
+        throw new TypeError(`'ticksOrDuration' must be either 'ticks' or 'duration'`)
+      }
+      if (!deltaAlias && ticksOrDuration === 'duration') {
+        machine.timers();
+      }
+      const predicate: Predicate<TData> = (_, { tickCount, duration }) => ticksOrDuration === 'ticks'
+        ? tickCount >= toNumber(countOrFn)
+        : (duration as number) >= toNumber(countOrFn);
+
+      addTransition({ predicate, state: destState.name, timeout: { count: countOrFn, unit: ticksOrDuration }, ...destOptions });
+      return machine;
+    },
     state: stateName => {
       const nominatedState = states[stateName];
       if (!nominatedState) {
         throw new TypeError(`'${stateName}' not found in states: ${Object.keys(states)}`)
       }
       homeState = destState = nominatedState;
+      destOptions = {};
+      latestTransitions = [];
+      return machine;
+    },
+    fromAny: (options = {}) => {
+      homeState = destState = anyState;
+      anyStateOptions = options;
+      destOptions = {};
+      latestTransitions = [];
       return machine;
     },
-    init: (data: TData) => {
-      const { init } = states[initialState];
-      init(data, { from: null, recordDuration: !!deltaAlias });
+    nest: child => {
+      destState.setChild(child);
       return machine;
     },
+    final: () => {
+      if (destState.transitions.length) {
+        throw new TypeError(`Cannot make state '${destState.name}' final because it has transitions.`);
+      }
+      destState.setFinal();
+      return machine;
+    },
+    init: (data: TData, { history } = {}) => {
+      assertIdle('init');
+      enter(data, history);
+      return machine;
+    },
+    initAsync: (data, { history } = {}) => enqueue(async () => {
+      await enter(data, history, true);
+      return machine;
+    }),
     process: data => {
+      assertIdle('process');
+      assertRunning();
+      if (machine.done) return machine;
       const currentState = states[currentStateName];
-      const { tickCount, minTicks, minDuration } = currentState;
+      const { tickCount } = currentState;
+      const { delta, duration } = timing(data);
 
-      if (minDuration && !deltaAlias) {
-        machine.timers();
+      const transition = transitionsFrom(currentStateName).find(
+        transition => !transition.event && isSatisfied(transition, data, {
+          tickCount,
+          duration: duration as number,
+        }));
+
+      const transitioned = transition && isPermitted(currentState, duration);
+      if (transitioned) {
+        takeTransition(transition, data, duration);
+        if (transition.self !== 'internal') runToCompletion(data, [currentState.name, currentStateName]);
       }
 
-      const { transitions } = states[currentStateName];
+      // internal transitions don't leave the state, so it ticks as usual
+      if (!transitioned || transition.self === 'internal') {
+        tickCurrentState(data, delta, duration);
 
-      const delta = deltaAlias ? data[deltaAlias] : null;
-      // TODO: move logic into state object
-      const duration = deltaAlias ? currentState.duration + (delta || 0) : null;
-      const transition = transitions.find(
-        transition => transition.predicate(data, {
-          tickCount,
-          duration,
-        }));
+        // parent transitions take precedence, so nested machine only processes when parent stays put
+        currentState.child?.process(data);
+      }
+      return machine;
+    },
+    processAsync: data => enqueue(async () => {
+      assertRunning();
+      if (machine.done) return machine;
+      const currentState = states[currentStateName];
+      const { tickCount } = currentState;
+      const { delta, duration } = timing(data);
 
-      if (transition && tickCount >= toNumber(minTicks) && duration >= toNumber(minDuration)) {
-        currentState.exit(data, {
-          from: currentStateName,
-          to: transition.state,
-          tickCount,
-          duration,
-        });
+      // predicates are awaited one at a time, in declaration order
+      let transition: PredicateTransition<TData, StateName> | undefined;
+      for (const candidate of transitionsFrom(currentStateName)) {
+        if (!candidate.event && await candidate.predicate(data, { tickCount, duration: duration as number, context })) {
+          transition = candidate;
+          break;
+        }
+      }
 
-        const prevState = currentState;
-        const nextState = states[transition.state];
-        prevStateName = currentStateName
-        currentStateName = nextState.name;
+      const transitioned = transition && isPermitted(currentState, duration);
+      if (transitioned) {
+        await takeTransition(transition as PredicateTransition<TData, StateName>, data, duration, true);
+        if (transition?.self !== 'internal') await runToCompletionAsync(data, [currentState.name, currentStateName]);
+      }
 
-        nextState.init && nextState.init(data, {
-          from: prevState.name,
-          recordDuration: !!deltaAlias,
-        });
-      } else {
-        currentState.tick(data, { delta });
-        onTicks.forEach(fn => fn(data, {
-          from: currentStateName,
-          to: currentStateName,
+      if (!transitioned || transition?.self === 'internal') {
+        await tickCurrentState(data, delta, duration);
+        await currentState.child?.processAsync(data);
+      }
+      return machine;
+    }),
+    isTransitioning: () => pending > 0,
+    get context() {
+      return context;
+    },
+    reset: () => {
+      assertIdle('reset');
+      Object.values(states).forEach(state => state.reset());
+      currentStateName = initialState;
+      prevStateName = null;
+      context = initialContext as TContext;
+      stopped = false;
+      awaitingInit = true;
+      return machine;
+    },
+    stop: data => {
+      assertIdle('stop');
+      if (stopped) return machine;
+
+      // there is no next state, so exit callbacks see the current state as both from and to
+      const currentState = states[currentStateName];
+      currentState.exit(data, {
+        from: currentStateName,
+        to: currentStateName,
+        tickCount: currentState.tickCount,
+        duration: currentState.duration,
+        context,
+      });
+      stopped = true;
+      return machine;
+    },
+    isStopped: () => stopped,
+    dispose: () => {
+      assertIdle('dispose');
+      Object.values(states).forEach(state => state.dispose());
+      onTicks.splice(0);
+      onDone.splice(0);
+      transitionSubscriptions.splice(0);
+      return machine;
+    },
+    get done() {
+      return states[currentStateName].final;
+    },
+    send: (event, payload) => {
+      assertIdle('send');
+      assertRunning();
+      if (machine.done) return machine;
+      const currentState = states[currentStateName];
+      const { tickCount, duration } = currentState;
+
+      const transition = transitionsFrom(currentStateName).find(
+        transition => transition.event === event && isSatisfied(transition, payload, {
           tickCount,
-          duration,
+          duration: duration as number,
         }));
+
+      if (transition && isPermitted(currentState, duration)) {
+        takeTransition(transition, payload, duration);
+        if (transition.self !== 'internal') runToCompletion(payload, [currentState.name, currentStateName]);
+      } else {
+        // as with process(), nested machine only handles events its parent doesn't
+        currentState.child?.send(event, payload);
       }
       return machine;
     },
     currentState: () => currentStateName,
+    currentStatePath: () => {
+      const { child } = states[currentStateName];
+      return child ? `${currentStateName}.${child.currentStatePath()}` : currentStateName;
+    },
     previousState: () => prevStateName,
-    on: (stateNameOrMatcher: StateName | Partial<Metadata<TData, StateName>>, fn: Callback<TData, StateName>, modifier: 'begin' | 'every' | 'end' = 'begin'): TStateMachine<TData, StateName> => {
+    on: (stateNameOrMatcher: StateName | 'tick' | 'done' | Matcher<TData, StateName>, fn: Callback<TData, StateName>, modifier: 'begin' | 'every' | 'end' = 'begin'): TStateMachine<TData, StateName> => {
       if (stateNameOrMatcher === 'tick') {
         onTicks.push(fn);
+        latestUnsubscribe = () => remove(onTicks, fn);
+        return machine;
+      }
+
+      if (stateNameOrMatcher === 'done') {
+        onDone.push(fn);
+        latestUnsubscribe = () => remove(onDone, fn);
         return machine;
       }
 
@@ -363,47 +1008,76 @@ export const StateMachine = <TData, StateName extends string = string>(initialSt
         };
         const subscriptions = modifierToSubscriptionMap[modifier];
         subscriptions.push(fn);
+        latestUnsubscribe = () => remove(subscriptions, fn);
       }
 
       if (typeof stateNameOrMatcher === 'object') {
         const { from, to } = stateNameOrMatcher;
+        const unknownState = [from, to]
+          .flatMap(stateNames => Array.isArray(stateNames) ? stateNames : [stateNames])
+          .find(stateName => stateName && !states[stateName]);
 
-        if (!to) {
-          throw new TypeError(`Metadata object must contain a 'to' property if subscribing via transition matcher.`)
+        if (unknownState) {
+          throw new TypeError(`Cannot subscribe to state '${unknownState}' because no state with that name exists.`)
         }
 
-        const targetState = states[to];
-
-        if (!targetState) {
-          throw new TypeError(`Cannot subscribe to state '${to}' because no state with that name exists.`)
-        }
-
-        targetState.subscriptionsViaMatcher.push([stateNameOrMatcher, fn]);
+        const subscription: [Matcher<TData, StateName>, Callback<TData, StateName>] = [stateNameOrMatcher, fn];
+        transitionSubscriptions.push(subscription);
+        latestUnsubscribe = () => remove(transitionSubscriptions, subscription);
       }
 
       return machine;
     },
-    off(stateName, fn) {
-      const targetState = states[stateName];
+    off(stateNameOrMatcher, fn) {
+      if (stateNameOrMatcher === 'tick') {
+        remove(onTicks, fn);
+        return machine;
+      }
 
-      if (!targetState) {
-        throw new TypeError(`Cannot unsubscribe from state '${stateName}' because no state with that name exists.`)
+      if (stateNameOrMatcher === 'done') {
+        remove(onDone, fn);
+        return machine;
       }
 
-      const allSubs = [
-        targetState.stateChangeSubscriptions,
-        targetState.stateTickSubscriptions,
-        targetState.stateEndSubscriptions,
-      ];
+      if (typeof stateNameOrMatcher === 'string') {
+        const targetState = states[stateNameOrMatcher];
 
-      const subs = allSubs.find(sub => sub.includes(fn));
-      if (!subs) return machine;
+        if (!targetState) {
+          throw new TypeError(`Cannot unsubscribe from state '${stateNameOrMatcher}' because no state with that name exists.`)
+        }
 
-      const index = subs.indexOf(fn);
-      if (index > -1) subs.splice(index, 1);
+        const allSubs = [
+          targetState.stateChangeSubscriptions,
+          targetState.stateTickSubscriptions,
+          targetState.stateEndSubscriptions,
+        ];
+
+        const subs = allSubs.find(sub => sub.includes(fn));
+        if (subs) {
+          remove(subs, fn);
+          return machine;
+        }
+      }
+
+      // subscriptions via matcher, including those made by once(stateName)
+      const { from, to } = typeof stateNameOrMatcher === 'object' ? stateNameOrMatcher : { from: undefined, to: stateNameOrMatcher };
+      const subscription = transitionSubscriptions.find(([matcher, callback]) =>
+        callback === fn && sameStates(matcher.from, from) && sameStates(matcher.to, to)
+      );
+      if (subscription) remove(transitionSubscriptions, subscription);
 
       return machine;
     },
+    disposer: () => {
+      if (!latestUnsubscribe) {
+        throw new TypeError(`disposer() must follow on(), once(), onEvery() or onEnd() to know which subscription it belongs to`);
+      }
+      const unsubscribe = latestUnsubscribe;
+      return () => {
+        unsubscribe();
+        return machine;
+      };
+    },
     once: (stateName, fn) => {
       return machine.on({ to: stateName, shouldUnsubscribe: () => true }, fn);
     },
@@ -417,6 +1091,84 @@ export const StateMachine = <TData, StateName extends string = string>(initialSt
       deltaAlias = alias;
       return machine;
     },
+    runToCompletion(steps = 100) {
+      if (!Number.isInteger(steps) || steps < 1) {
+        throw new TypeError(`'maxSteps' must be a positive integer`);
+      }
+      maxSteps = steps;
+      return machine;
+    },
+    snapshot: () => ({
+      current: currentStateName,
+      previous: prevStateName,
+      context,
+      states: Object.keys(states).reduce((snapshots, stateName) => {
+        snapshots[stateName] = {
+          ...states[stateName].snapshot(),
+          onceSubscriptions: transitionSubscriptions.filter(([{ to, shouldUnsubscribe }]) => shouldUnsubscribe && to === stateName).length,
+        };
+        return snapshots;
+      }, {} as MachineSnapshot<StateName>['states']),
+    }),
+    restore: snapshot => {
+      assertIdle('restore');
+      const unknownStates = [snapshot.current, ...Object.keys(snapshot.states)].filter(stateName => !states[stateName]);
+      if (unknownStates.length) {
+        throw new TypeError(`Cannot restore snapshot with unknown states: ${unknownStates}`);
+      }
+
+      // callbacks are deliberately not fired: the machine resumes as if it had never stopped
+      Object.keys(snapshot.states).forEach(stateName => states[stateName].restore(snapshot.states[stateName]));
+      currentStateName = snapshot.current;
+      prevStateName = snapshot.previous;
+      awaitingInit = false;
+      if ('context' in snapshot) context = snapshot.context as TContext;
+      return machine;
+    },
+    validate: () => {
+      const reached = [initialState];
+      for (let i = 0; i < reached.length; i++) {
+        transitionsFrom(reached[i]).forEach(({ state }) => {
+          if (!reached.includes(state)) reached.push(state);
+        });
+      }
+
+      const stateNames = Object.keys(states) as StateName[];
+      const unreachable = stateNames.filter(stateName => !reached.includes(stateName));
+
+      const report: ValidationReport = {
+        unreachable,
+        deadEnds: stateNames.filter(stateName => !states[stateName].final && !transitionsFrom(stateName).length),
+        missingPredicates: declaredTransitions
+          .filter(([from, to]) => !(from === anyState.name ? anyState : states[from]).transitions.some(({ state }) => state === to))
+          .filter(([from, to], i, all) => all.findIndex(other => other[0] === from && other[1] === to) === i)
+          .map(([from, to]) => ({ from, to })),
+        orphanSubscriptions: unreachable.filter(stateName => {
+          const state = states[stateName];
+          return [
+            state.stateChangeSubscriptions,
+            state.stateTickSubscriptions,
+            state.stateEndSubscriptions,
+          ].some(subscriptions => subscriptions.length) || transitionSubscriptions.some(([{ to }]) => to && matchesState(to, stateName));
+        }),
+      };
+
+      // nested machines are reported with their parent's name as prefix, e.g. 'walking.slow'
+      stateNames.forEach(stateName => {
+        const { child } = states[stateName];
+        if (!child) return;
+
+        const prefix = (name: string) => `${stateName}.${name}`;
+        const nested = child.validate();
+        report.unreachable.push(...nested.unreachable.map(prefix));
+        report.missingPredicates.push(...nested.missingPredicates.map(({ from, to }) => ({ from: prefix(from), to: prefix(to) })));
+        report.orphanSubscriptions.push(...nested.orphanSubscriptions.map(prefix));
+      });
+
+      return report;
+    },
+    transitionsFrom,
+    initialState,
     states,
   };
 
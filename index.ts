@@ -1,2 +1,6 @@
-export { StateMachine, State, TStateMachine } from './StateMachine';
-export { default as FlightRecorder } from './FlightRecorder';
+export { StateMachine, State, TStateMachine, Matcher, Updater } from './StateMachine';
+export { ParallelStateMachine, TParallelStateMachine } from './ParallelStateMachine';
+export { default as FlightRecorder, NamespacedFlightRecorder, RecorderOptions, Timeline, TimelineEntry } from './FlightRecorder';
+export { toDot, toMermaid } from './Diagram';
+export { fromDefinition, MachineDefinition, StateDefinition, TransitionDefinition, Registry } from './Definition';
+export { InputRecorder, Replayer, Frame, ReplayStep } from './Replay';